@@ -2,6 +2,7 @@ import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import { Join } from './pages/Join'
 import { Lobby } from './pages/Lobby'
 import { Play } from './pages/Play'
+import { Assignment } from './pages/Assignment'
 import { OfflineBanner } from './components/OfflineBanner'
 
 export default function App() {
@@ -11,8 +12,10 @@ export default function App() {
       <Routes>
         <Route path="/" element={<Navigate to="/join" replace />} />
         <Route path="/join" element={<Join />} />
+        <Route path="/join/:code" element={<Join />} />
         <Route path="/lobby/:code" element={<Lobby />} />
         <Route path="/play/:code" element={<Play />} />
+        <Route path="/assignment/:code" element={<Assignment />} />
       </Routes>
     </BrowserRouter>
   )
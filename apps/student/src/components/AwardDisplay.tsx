@@ -0,0 +1,39 @@
+/**
+ * Award Display Component
+ *
+ * Shows the player's own awards during the ceremony
+ */
+
+import type { Award } from '@quiz-party/shared';
+
+interface AwardDisplayProps {
+  awards: Award[];
+}
+
+export function AwardDisplay({ awards }: AwardDisplayProps) {
+  if (awards.length === 0) {
+    return (
+      <div className="text-center glass rounded-2xl p-8 w-full max-w-md" role="status" aria-live="polite">
+        <div className="text-6xl mb-4" aria-hidden="true">🏆</div>
+        <h2 className="text-2xl font-bold text-white mb-2">Awards Ceremony</h2>
+        <p className="text-white/60">Eyes on the big screen!</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md space-y-4" role="status" aria-live="polite">
+      <h2 className="text-2xl font-bold text-white text-center">
+        You won {awards.length === 1 ? 'an award' : `${awards.length} awards`}!
+      </h2>
+      {awards.map((a) => (
+        <div key={a.award_key} className="text-center glass rounded-2xl p-6">
+          <div className="text-6xl mb-2" aria-hidden="true">{a.emoji}</div>
+          <p className="text-[var(--ice)] text-xl font-bold">{a.name}</p>
+          <p className="text-white/60 text-sm">{a.description}</p>
+          <p className="text-white font-mono mt-2">{a.stat_value}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
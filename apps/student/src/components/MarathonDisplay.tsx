@@ -0,0 +1,82 @@
+/**
+ * Marathon Display Component
+ *
+ * Rapid-fire question view driven by one session-wide clock,
+ * with the current streak and multiplier always visible
+ */
+
+import { useState, useEffect } from 'react';
+import type { WSPlayerQuestion } from '@quiz-party/shared';
+import { QuestionDisplay } from './QuestionDisplay';
+
+interface MarathonDisplayProps {
+  /** Epoch ms when the Marathon clock runs out */
+  endsAt: number;
+  streak: number;
+  multiplier: number;
+  lastCorrect: boolean | null;
+  question: WSPlayerQuestion | null;
+  selectedAnswer: number | null;
+  onAnswer: (index: number) => void;
+  paused?: boolean;
+}
+
+export function MarathonDisplay({
+  endsAt,
+  streak,
+  multiplier,
+  lastCorrect,
+  question,
+  selectedAnswer,
+  onAnswer,
+  paused = false,
+}: MarathonDisplayProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    // Freeze the clock while paused; endsAt is re-synced on resume
+    if (paused) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [paused, endsAt]);
+
+  const secondsLeft = Math.max(0, Math.ceil((endsAt - now) / 1000));
+
+  return (
+    <div className="w-full max-w-lg">
+      {/* Streak */}
+      <div className="flex items-center justify-between mb-2">
+        <div
+          className={`px-3 py-1 rounded-full text-sm font-bold ${
+            lastCorrect === false ? 'bg-red-500/20 text-red-400' : 'bg-green-500/20 text-green-400'
+          }`}
+          aria-live="polite"
+        >
+          <span aria-hidden="true">🔥</span> {streak} streak
+        </div>
+        <div className="px-3 py-1 rounded-full text-sm font-bold bg-[var(--ice)] text-[var(--deep-sea)]">
+          x{multiplier}
+        </div>
+      </div>
+
+      {question ? (
+        <QuestionDisplay
+          questionId={question.question_id}
+          questionText={question.question_text}
+          options={question.options}
+          timeRemaining={secondsLeft}
+          selectedAnswer={selectedAnswer}
+          onAnswer={onAnswer}
+          hiddenOptions={question.hidden_option_indexes}
+          readAloud={question.read_aloud}
+        />
+      ) : (
+        <div className="text-center" role="status" aria-live="polite">
+          <div className="text-4xl font-bold text-white mb-2">{secondsLeft}</div>
+          <p className="text-white/60">Get ready...</p>
+        </div>
+      )}
+    </div>
+  );
+}
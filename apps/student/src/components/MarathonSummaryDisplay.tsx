@@ -0,0 +1,44 @@
+/**
+ * Marathon Summary Display Component
+ *
+ * Shows how the player did once the Marathon clock runs out
+ */
+
+interface MarathonSummaryDisplayProps {
+  questionsAttempted: number;
+  questionsCorrect: number;
+  bestStreak: number;
+  pointsEarned: number;
+}
+
+export function MarathonSummaryDisplay({
+  questionsAttempted,
+  questionsCorrect,
+  bestStreak,
+  pointsEarned,
+}: MarathonSummaryDisplayProps) {
+  return (
+    <div className="text-center glass rounded-2xl p-8 w-full max-w-md" role="status" aria-live="polite">
+      <div className="text-6xl mb-4" aria-hidden="true">🏁</div>
+      <h2 className="text-2xl font-bold text-white mb-6">Time&apos;s up!</h2>
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div className="bg-[#0A1E2E] rounded-xl p-4">
+          <p className="text-3xl font-bold text-white">{questionsAttempted}</p>
+          <p className="text-white/50 text-xs">attempted</p>
+        </div>
+        <div className="bg-[#0A1E2E] rounded-xl p-4">
+          <p className="text-3xl font-bold text-green-400">{questionsCorrect}</p>
+          <p className="text-white/50 text-xs">correct</p>
+        </div>
+      </div>
+      <p className="text-white/70">
+        Best streak: <span className="font-bold text-white">🔥 {bestStreak}</span>
+      </p>
+      {pointsEarned !== 0 && (
+        <p className="text-[var(--ice)] text-xl font-bold mt-2">
+          {pointsEarned > 0 ? '+' : ''}{pointsEarned} points
+        </p>
+      )}
+    </div>
+  );
+}
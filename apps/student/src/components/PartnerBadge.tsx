@@ -0,0 +1,27 @@
+/**
+ * Partner Badge Component
+ *
+ * Shows the Team Up partner and whether they've locked in an answer
+ */
+
+interface PartnerBadgeProps {
+  partnerName: string;
+  lockedIn: boolean;
+}
+
+export function PartnerBadge({ partnerName, lockedIn }: PartnerBadgeProps) {
+  return (
+    <div
+      className="w-full max-w-lg glass rounded-xl px-4 py-2 mb-4 flex items-center justify-between"
+      role="status"
+      aria-live="polite"
+    >
+      <p className="text-white text-sm">
+        <span aria-hidden="true">🤝</span> Partner: <span className="font-bold">{partnerName}</span>
+      </p>
+      <p className={`text-xs font-medium ${lockedIn ? 'text-green-400' : 'text-white/50'}`}>
+        {lockedIn ? 'Locked in ✓' : 'Thinking...'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * Paused Overlay Component
+ *
+ * Covers the screen while the host has the game paused
+ */
+
+export function PausedOverlay() {
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/80 p-6"
+      role="alertdialog"
+      aria-modal="true"
+      aria-live="assertive"
+      aria-label="Game paused"
+    >
+      <div className="text-center glass rounded-2xl p-8 w-full max-w-sm">
+        <div className="text-6xl mb-4" aria-hidden="true">⏸️</div>
+        <h2 className="text-2xl font-bold text-white mb-2">Paused</h2>
+        <p className="text-white/60">Your teacher paused the game. Hang tight!</p>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 /**
  * Question Display Component
  *
- * Shows the current question with timer and answer options
+ * Shows the current question with timer and answer options. Honors the
+ * player's accommodations: hidden distractors and read-aloud.
  */
 
+import { useEffect, useCallback } from 'react';
+
 interface QuestionDisplayProps {
   questionId: string;
   questionText: string;
@@ -11,6 +14,20 @@ interface QuestionDisplayProps {
   timeRemaining: number;
   selectedAnswer: number | null;
   onAnswer: (index: number) => void;
+  /** Provided only in games that allow skipping (Sharpshooter) */
+  onSkip?: () => void;
+  skipped?: boolean;
+  wrongPenalty?: number;
+  /** Distractors hidden by the reduced-options accommodation */
+  hiddenOptions?: number[];
+  /** Speak the question and options when it appears */
+  readAloud?: boolean;
+}
+
+function speak(text: string) {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
 }
 
 export function QuestionDisplay({
@@ -20,7 +37,29 @@ export function QuestionDisplay({
   timeRemaining,
   selectedAnswer,
   onAnswer,
+  onSkip,
+  skipped = false,
+  wrongPenalty,
+  hiddenOptions = [],
+  readAloud = false,
 }: QuestionDisplayProps) {
+  const locked = selectedAnswer !== null || skipped;
+  const visibleOptions = options
+    .map((option, index) => ({ option, index }))
+    .filter(({ index }) => !hiddenOptions.includes(index));
+  const spokenText = [questionText, ...visibleOptions.map(({ option }, i) => `Option ${i + 1}: ${option}`)].join('. ');
+
+  const readQuestion = useCallback(() => speak(spokenText), [spokenText]);
+
+  // Read each new question once; stop talking when it goes away
+  useEffect(() => {
+    if (!readAloud) return;
+    readQuestion();
+    return () => {
+      if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+    };
+  }, [readAloud, readQuestion]);
+
   return (
     <div className="w-full max-w-lg">
       {/* Timer */}
@@ -35,15 +74,23 @@ export function QuestionDisplay({
         <p className="text-white text-lg text-center">
           {questionText}
         </p>
+        {readAloud && (
+          <button
+            onClick={readQuestion}
+            className="block mx-auto mt-3 px-3 py-1 rounded-full bg-white/10 text-white/70 text-sm hover:bg-white/20"
+          >
+            <span aria-hidden="true">🔊</span> Read again
+          </button>
+        )}
       </div>
 
       {/* Answer Options */}
       <div className="grid grid-cols-2 gap-3">
-        {options.map((option, i) => (
+        {visibleOptions.map(({ option, index: i }) => (
           <button
             key={`${questionId}-${i}`}
             onClick={() => onAnswer(i)}
-            disabled={selectedAnswer !== null}
+            disabled={locked}
             className={`p-4 rounded-xl text-white font-medium text-left transition-all ${
               selectedAnswer === i
                 ? 'bg-[var(--ice)] text-[var(--deep-sea)]'
@@ -54,6 +101,26 @@ export function QuestionDisplay({
           </button>
         ))}
       </div>
+
+      {/* Skip (Sharpshooter) */}
+      {onSkip && (
+        <button
+          onClick={onSkip}
+          disabled={locked}
+          className={`w-full mt-3 p-3 rounded-xl font-medium transition-all ${
+            skipped
+              ? 'bg-white/20 text-white'
+              : 'glass text-white/70 hover:bg-white/10 disabled:opacity-50'
+          }`}
+        >
+          {skipped ? 'Skipped' : 'Skip'}
+          {!skipped && wrongPenalty !== undefined && (
+            <span className="block text-xs text-white/50 mt-0.5">
+              Skip for 0 points · a wrong answer costs {wrongPenalty}
+            </span>
+          )}
+        </button>
+      )}
     </div>
   );
 }
@@ -0,0 +1,27 @@
+/**
+ * Random Event Banner Component
+ *
+ * Compact version of the projector's chaos event card for phones
+ */
+
+import { RandomEventDetails, getRandomEventEmoji, type WSRandomEvent } from '@quiz-party/shared';
+
+interface RandomEventBannerProps {
+  event: WSRandomEvent;
+}
+
+export function RandomEventBanner({ event }: RandomEventBannerProps) {
+  return (
+    <div
+      className="w-full max-w-lg glass rounded-xl p-4 mb-4 text-center border border-amber-400/60"
+      role="alert"
+      aria-live="assertive"
+    >
+      <p className="text-white font-bold">
+        <span aria-hidden="true">{getRandomEventEmoji(event.event_key)}</span> {event.title}
+      </p>
+      <p className="text-white/60 text-sm mb-2">{event.description}</p>
+      <RandomEventDetails event={event} className="text-sm" />
+    </div>
+  );
+}
@@ -4,13 +4,71 @@
  * Shows the result of an answered question
  */
 
+import type { TeamUpOutcome } from '@quiz-party/shared';
+
 interface ResultDisplayProps {
   correct: boolean;
   pointsEarned: number;
   explanation?: string | null;
+  skipped?: boolean;
+  teamUpOutcome?: TeamUpOutcome;
+  partnerName?: string | null;
 }
 
-export function ResultDisplay({ correct, pointsEarned, explanation }: ResultDisplayProps) {
+const TEAM_UP_OUTCOMES: Record<TeamUpOutcome, { emoji: string; title: string; success: boolean }> = {
+  both_correct: { emoji: '🤝', title: 'You both got it!', success: true },
+  you_wrong: { emoji: '❌', title: 'You missed this one', success: false },
+  partner_wrong: { emoji: '😬', title: 'Your partner missed it', success: false },
+};
+
+export function ResultDisplay({
+  correct,
+  pointsEarned,
+  explanation,
+  skipped = false,
+  teamUpOutcome,
+  partnerName,
+}: ResultDisplayProps) {
+  if (skipped) {
+    return (
+      <div className="text-center glass rounded-2xl p-8 w-full max-w-md" role="alert" aria-live="assertive">
+        <div className="text-6xl mb-4" aria-hidden="true">⏭️</div>
+        <h2 className="text-2xl font-bold mb-2 text-white">Skipped</h2>
+        <p className="text-white/60 text-xl font-bold">0 points</p>
+        {explanation && (
+          <p className="text-white/60 text-sm mt-4">{explanation}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (teamUpOutcome) {
+    const outcome = TEAM_UP_OUTCOMES[teamUpOutcome];
+    const partner = partnerName || 'your partner';
+    return (
+      <div className="text-center glass rounded-2xl p-8 w-full max-w-md" role="alert" aria-live="assertive">
+        <div className="text-6xl mb-4" aria-hidden="true">{outcome.emoji}</div>
+        <h2 className={`text-2xl font-bold mb-2 ${outcome.success ? 'text-green-400' : 'text-red-400'}`}>
+          {outcome.title}
+        </h2>
+        {teamUpOutcome === 'partner_wrong' && (
+          <p className="text-white/60 mb-2">You were right, but {partner} wasn&apos;t.</p>
+        )}
+        {teamUpOutcome === 'you_wrong' && (
+          <p className="text-white/60 mb-2">Both of you need to be right to score.</p>
+        )}
+        {pointsEarned !== 0 && (
+          <p className="text-[var(--ice)] text-xl font-bold">
+            {pointsEarned > 0 ? '+' : ''}{pointsEarned} points
+          </p>
+        )}
+        {explanation && (
+          <p className="text-white/60 text-sm mt-4">{explanation}</p>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="text-center glass rounded-2xl p-8 w-full max-w-md" role="alert" aria-live="assertive">
       <div className="text-6xl mb-4" aria-hidden="true">
@@ -0,0 +1,83 @@
+/**
+ * Review Display Component
+ *
+ * Follows the teacher's review on the phone: the correct answer, what
+ * this player picked, and which reviewed questions they missed
+ */
+
+interface ReviewDisplayProps {
+  reviewIndex: number;
+  totalReviews: number;
+  questionText: string;
+  options: string[];
+  correctIndex: number;
+  explanation: string | null;
+  yourAnswerIndex: number | null;
+  missedIndexes: number[];
+}
+
+export function ReviewDisplay({
+  reviewIndex,
+  totalReviews,
+  questionText,
+  options,
+  correctIndex,
+  explanation,
+  yourAnswerIndex,
+  missedIndexes,
+}: ReviewDisplayProps) {
+  const youMissed = missedIndexes.includes(reviewIndex);
+
+  return (
+    <div className="w-full max-w-lg">
+      {/* Which reviewed questions this player missed */}
+      <div className="flex justify-center gap-2 mb-4" aria-label={`You missed ${missedIndexes.length} of ${totalReviews}`}>
+        {Array.from({ length: totalReviews }, (_, i) => (
+          <span
+            key={i}
+            className={`w-3 h-3 rounded-full ${
+              missedIndexes.includes(i) ? 'bg-red-400' : 'bg-green-400'
+            } ${i === reviewIndex ? 'ring-2 ring-white' : 'opacity-60'}`}
+          />
+        ))}
+      </div>
+
+      <div className="glass rounded-xl p-6 mb-4">
+        <p className={`text-sm font-bold mb-2 ${youMissed ? 'text-red-400' : 'text-green-400'}`}>
+          {youMissed ? 'You missed this one' : 'You got this one'}
+        </p>
+        <p className="text-white text-lg">{questionText}</p>
+      </div>
+
+      <div className="space-y-2">
+        {options.map((option, i) => {
+          const isCorrect = i === correctIndex;
+          const isYours = i === yourAnswerIndex;
+          return (
+            <div
+              key={i}
+              className={`p-3 rounded-xl text-white flex items-center justify-between ${
+                isCorrect
+                  ? 'bg-green-500/20 border border-green-400'
+                  : isYours
+                    ? 'bg-red-500/20 border border-red-400'
+                    : 'glass opacity-60'
+              }`}
+            >
+              <span>{option}</span>
+              {isYours && <span className="text-xs text-white/70">Your answer</span>}
+            </div>
+          );
+        })}
+      </div>
+
+      {yourAnswerIndex === null && (
+        <p className="text-white/50 text-sm text-center mt-3">You didn&apos;t answer this one</p>
+      )}
+
+      {explanation && (
+        <p className="text-white/70 text-sm mt-4 glass rounded-xl p-4">{explanation}</p>
+      )}
+    </div>
+  );
+}
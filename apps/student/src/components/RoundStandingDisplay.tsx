@@ -0,0 +1,33 @@
+/**
+ * Round Standing Display Component
+ *
+ * Shows the player's rank after a round and how far they moved
+ */
+
+interface RoundStandingDisplayProps {
+  rank: number;
+  totalPlayers: number;
+  score: number;
+  /** Places gained (+) or lost (-) since last round; null after the first round */
+  rankChange: number | null;
+}
+
+export function RoundStandingDisplay({ rank, totalPlayers, score, rankChange }: RoundStandingDisplayProps) {
+  return (
+    <div className="text-center glass rounded-2xl p-8 w-full max-w-md" role="status" aria-live="polite">
+      <p className="text-white/50 text-sm mb-1">You&apos;re ranked</p>
+      <p className="text-6xl font-bold text-white mb-1">#{rank}</p>
+      <p className="text-white/40 text-sm mb-4">of {totalPlayers} players</p>
+      {rankChange !== null && rankChange > 0 && (
+        <p className="text-green-400 text-xl font-bold">▲ Up {rankChange} {rankChange === 1 ? 'place' : 'places'}!</p>
+      )}
+      {rankChange !== null && rankChange < 0 && (
+        <p className="text-red-400 text-xl font-bold">▼ Down {-rankChange} {rankChange === -1 ? 'place' : 'places'}</p>
+      )}
+      {rankChange === 0 && (
+        <p className="text-white/60 text-xl font-bold">Holding steady</p>
+      )}
+      <p className="text-[var(--ice)] text-2xl font-bold mt-4">{score} points</p>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * Spectator Display Component
+ *
+ * Shown to players knocked out of Knockout: survivors remaining,
+ * the live question (read-only) and a countdown to the next game
+ */
+
+import { useState, useEffect } from 'react';
+
+interface SpectatorDisplayProps {
+  survivorsRemaining: number;
+  totalPlayers: number;
+  /** Epoch ms when the next mini-game is expected to start */
+  nextGameAt: number | null;
+  questionText?: string;
+  options?: string[];
+}
+
+export function SpectatorDisplay({
+  survivorsRemaining,
+  totalPlayers,
+  nextGameAt,
+  questionText,
+  options = [],
+}: SpectatorDisplayProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (nextGameAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [nextGameAt]);
+
+  const secondsToNextGame = nextGameAt !== null
+    ? Math.max(0, Math.ceil((nextGameAt - now) / 1000))
+    : null;
+
+  return (
+    <div className="w-full max-w-lg">
+      <div className="text-center glass rounded-2xl p-6 mb-4" role="status" aria-live="polite">
+        <div className="text-5xl mb-2" aria-hidden="true">💀</div>
+        <h2 className="text-2xl font-bold text-red-400 mb-1">Knocked out!</h2>
+        <p className="text-white/60">
+          <span className="text-white font-bold">{survivorsRemaining}</span> of {totalPlayers} still standing
+        </p>
+        {secondsToNextGame !== null && (
+          <p className="text-[var(--ice)] text-sm mt-2">
+            Next game in ~{secondsToNextGame}s
+          </p>
+        )}
+      </div>
+
+      {questionText && (
+        <div className="opacity-70" aria-label="Live question">
+          <div className="glass rounded-xl p-4 mb-3">
+            <p className="text-white text-center">{questionText}</p>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {options.map((option, i) => (
+              <div key={i} className="glass rounded-xl p-3 text-white/70 text-sm">
+                {option}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
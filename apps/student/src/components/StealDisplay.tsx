@@ -0,0 +1,108 @@
+/**
+ * Steal Display Component
+ *
+ * Steal window: eligible players race to answer another team's missed
+ * question before the short deadline runs out
+ */
+
+import { useState, useEffect } from 'react';
+
+interface StealDisplayProps {
+  stealId: string;
+  questionText: string;
+  options: string[];
+  victimTeamName: string;
+  /** Epoch ms when the steal window closes */
+  closesAt: number;
+  eligible: boolean;
+  selectedAnswer: number | null;
+  onAttempt: (index: number) => void;
+  outcome: {
+    youStole: boolean;
+    thiefName: string | null;
+    thiefTeamName: string | null;
+    pointsEarned: number;
+  } | null;
+}
+
+export function StealDisplay({
+  stealId,
+  questionText,
+  options,
+  victimTeamName,
+  closesAt,
+  eligible,
+  selectedAnswer,
+  onAttempt,
+  outcome,
+}: StealDisplayProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (outcome) return;
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [outcome]);
+
+  if (outcome) {
+    return (
+      <div className="text-center glass rounded-2xl p-8 w-full max-w-md" role="alert" aria-live="assertive">
+        <div className="text-6xl mb-4" aria-hidden="true">
+          {outcome.youStole ? '🏴‍☠️' : outcome.thiefName ? '💨' : '🔒'}
+        </div>
+        <h2 className={`text-2xl font-bold mb-2 ${outcome.youStole ? 'text-green-400' : 'text-white'}`}>
+          {outcome.youStole
+            ? 'You stole it!'
+            : outcome.thiefName
+              ? `${outcome.thiefName} (${outcome.thiefTeamName}) stole it`
+              : 'Nobody stole it'}
+        </h2>
+        {outcome.youStole && outcome.pointsEarned !== 0 && (
+          <p className="text-[var(--ice)] text-xl font-bold">+{outcome.pointsEarned} points</p>
+        )}
+      </div>
+    );
+  }
+
+  const secondsLeft = Math.max(0, (closesAt - now) / 1000);
+
+  return (
+    <div className="w-full max-w-lg">
+      <div className="mb-4 text-center">
+        <p className="text-orange-400 font-bold uppercase tracking-wider text-sm">
+          <span aria-hidden="true">🏴‍☠️</span> Steal from {victimTeamName}!
+        </p>
+        <div className={`text-4xl font-bold ${secondsLeft <= 2 ? 'text-red-400' : 'text-white'}`}>
+          {secondsLeft.toFixed(1)}
+        </div>
+      </div>
+
+      <div className="glass rounded-xl p-6 mb-4">
+        <p className="text-white text-lg text-center">{questionText}</p>
+      </div>
+
+      {eligible ? (
+        <div className="grid grid-cols-2 gap-3">
+          {options.map((option, i) => (
+            <button
+              key={`${stealId}-${i}`}
+              onClick={() => onAttempt(i)}
+              disabled={selectedAnswer !== null || secondsLeft === 0}
+              className={`p-4 rounded-xl text-white font-medium text-left transition-all ${
+                selectedAnswer === i
+                  ? 'bg-orange-400 text-[var(--deep-sea)]'
+                  : 'glass hover:bg-white/10 disabled:opacity-50'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-center text-white/60" role="status">
+          The other teams are trying to steal your points...
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Wager Display Component
+ *
+ * High Stakes wager step: shows the upcoming category and lets the
+ * player pick how much of their bankroll to risk
+ */
+
+import { useState } from 'react';
+
+interface WagerDisplayProps {
+  category: string | null;
+  bankroll: number;
+  minWager: number;
+  submittedWager: number | null;
+  onSubmit: (amount: number) => void;
+}
+
+const QUICK_PICKS = [
+  { label: '10%', fraction: 0.1 },
+  { label: '25%', fraction: 0.25 },
+  { label: '50%', fraction: 0.5 },
+  { label: 'All in', fraction: 1 },
+];
+
+export function WagerDisplay({
+  category,
+  bankroll,
+  minWager,
+  submittedWager,
+  onSubmit,
+}: WagerDisplayProps) {
+  // Players with a small bankroll can still wager the house minimum
+  const maxWager = Math.max(bankroll, minWager);
+  const [amount, setAmount] = useState(minWager);
+
+  const clampWager = (value: number) =>
+    Math.min(maxWager, Math.max(minWager, Math.round(value)));
+
+  if (submittedWager !== null) {
+    return (
+      <div className="text-center glass rounded-2xl p-8 w-full max-w-md" role="status" aria-live="polite">
+        <div className="text-6xl mb-4" aria-hidden="true">🎰</div>
+        <h2 className="text-2xl font-bold text-white mb-2">Wager locked in</h2>
+        <p className="text-[var(--ice)] text-3xl font-bold">{submittedWager} points</p>
+        <p className="text-white/60 mt-4">Get ready for the question...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md glass rounded-2xl p-6">
+      <p className="text-white/50 text-sm text-center">Category</p>
+      <h2 className="text-2xl font-bold text-white text-center mb-6">
+        {category || 'Mystery'}
+      </h2>
+
+      <p className="text-center text-[var(--ice)] text-4xl font-bold mb-1">{amount}</p>
+      <p className="text-center text-white/40 text-xs mb-4">
+        of {bankroll} points in your bankroll
+      </p>
+
+      <input
+        type="range"
+        min={minWager}
+        max={maxWager}
+        value={amount}
+        onChange={(e) => setAmount(clampWager(parseInt(e.target.value)))}
+        aria-label="Wager amount"
+        className="w-full mb-4"
+      />
+
+      <div className="grid grid-cols-4 gap-2 mb-6">
+        {QUICK_PICKS.map((pick) => (
+          <button
+            key={pick.label}
+            type="button"
+            onClick={() => setAmount(clampWager(maxWager * pick.fraction))}
+            className="py-2 rounded-lg glass text-white text-sm font-medium hover:bg-white/10"
+          >
+            {pick.label}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onSubmit(amount)}
+        className="w-full py-4 bg-[var(--ice)] text-[var(--deep-sea)] font-bold text-lg rounded-xl active:scale-[0.97] transition-transform"
+      >
+        Lock In Wager
+      </button>
+    </div>
+  );
+}
@@ -1,7 +1,18 @@
 export { PlayerHeader } from './PlayerHeader';
 export { WaitingDisplay } from './WaitingDisplay';
 export { GameIntroDisplay } from './GameIntroDisplay';
+export { WagerDisplay } from './WagerDisplay';
 export { QuestionDisplay } from './QuestionDisplay';
 export { ResultDisplay } from './ResultDisplay';
+export { SpectatorDisplay } from './SpectatorDisplay';
+export { PartnerBadge } from './PartnerBadge';
+export { MarathonDisplay } from './MarathonDisplay';
+export { MarathonSummaryDisplay } from './MarathonSummaryDisplay';
+export { StealDisplay } from './StealDisplay';
+export { RandomEventBanner } from './RandomEventBanner';
+export { AwardDisplay } from './AwardDisplay';
+export { ReviewDisplay } from './ReviewDisplay';
+export { RoundStandingDisplay } from './RoundStandingDisplay';
 export { GameEndDisplay } from './GameEndDisplay';
+export { PausedOverlay } from './PausedOverlay';
 export { OfflineBanner } from './OfflineBanner';
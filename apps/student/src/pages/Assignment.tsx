@@ -0,0 +1,504 @@
+/**
+ * Assignment Page
+ *
+ * Self-paced homework mode. Students play the assignment's mini-game
+ * sequence solo over REST; the server scores every answer with the live
+ * game's rules and this page just renders whatever step comes next.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useParams } from 'react-router-dom'
+import {
+  assignmentAPI,
+  ApiError,
+  normalizeAnswerTime,
+  GAME_INFO,
+  type AssignmentConfig,
+  type AssignmentAttempt,
+  type AssignmentComplete,
+  type AssignmentStep,
+  type WSPlayerQuestion,
+  type WSWagerPrompt,
+  type WSAnswerResult,
+  type WSGameIntro,
+  type WSMarathonSummary,
+} from '@quiz-party/shared'
+import {
+  PlayerHeader,
+  GameIntroDisplay,
+  WagerDisplay,
+  QuestionDisplay,
+  ResultDisplay,
+  MarathonDisplay,
+  MarathonSummaryDisplay,
+} from '../components'
+
+interface MarathonState {
+  /** Epoch ms when the Marathon clock runs out */
+  endsAt: number
+  streak: number
+  multiplier: number
+}
+
+interface SoloState {
+  phase:
+    | 'loading'
+    | 'intro'
+    | 'wager'
+    | 'question'
+    | 'result'
+    | 'marathon'
+    | 'marathon_summary'
+    | 'complete'
+  intro: WSGameIntro | null
+  wagerPrompt: WSWagerPrompt | null
+  submittedWager: number | null
+  currentQuestion: WSPlayerQuestion | null
+  selectedAnswer: number | null
+  skipped: boolean
+  timeRemaining: number
+  lastResult: WSAnswerResult | null
+  marathon: MarathonState | null
+  marathonSummary: WSMarathonSummary | null
+  complete: AssignmentComplete | null
+  score: number
+}
+
+const INITIAL_STATE: SoloState = {
+  phase: 'loading',
+  intro: null,
+  wagerPrompt: null,
+  submittedWager: null,
+  currentQuestion: null,
+  selectedAnswer: null,
+  skipped: false,
+  timeRemaining: 0,
+  lastResult: null,
+  marathon: null,
+  marathonSummary: null,
+  complete: null,
+  score: 0,
+}
+
+function formatDueDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+function applyStep(prev: SoloState, step: AssignmentStep): SoloState {
+  switch (step.type) {
+    case 'game_intro':
+      return { ...prev, phase: 'intro', intro: step, marathon: null, lastResult: null }
+    case 'wager_prompt':
+      return { ...prev, phase: 'wager', wagerPrompt: step, submittedWager: null }
+    case 'question': {
+      // After a reload the Marathon clock only comes back with its next question
+      const marathon = prev.marathon ?? (step.marathon_seconds_remaining !== undefined
+        ? { endsAt: Date.now() + step.marathon_seconds_remaining * 1000, streak: 0, multiplier: 1 }
+        : null)
+      return {
+        ...prev,
+        // Marathon questions chain without a result screen in between
+        phase: marathon ? 'marathon' : 'question',
+        marathon,
+        currentQuestion: step,
+        selectedAnswer: null,
+        skipped: false,
+        timeRemaining: step.time_limit,
+      }
+    }
+    case 'marathon_start':
+      return {
+        ...prev,
+        phase: 'marathon',
+        currentQuestion: null,
+        lastResult: null,
+        marathon: { endsAt: Date.now() + step.duration * 1000, streak: 0, multiplier: 1 },
+      }
+    case 'marathon_summary':
+      return { ...prev, phase: 'marathon_summary', marathon: null, marathonSummary: step }
+    case 'assignment_complete':
+      return { ...prev, phase: 'complete', complete: step, score: step.score }
+  }
+}
+
+export function Assignment() {
+  const { code: rawCode } = useParams<{ code: string }>()
+  const code = (rawCode ?? '').toUpperCase()
+
+  const [assignment, setAssignment] = useState<AssignmentConfig | null>(null)
+  const [loadError, setLoadError] = useState('')
+  const [attempt, setAttempt] = useState<AssignmentAttempt | null>(() => assignmentAPI.getStoredAttempt(code))
+  const [state, setState] = useState<SoloState>({ ...INITIAL_STATE, score: attempt?.score ?? 0 })
+  const [name, setName] = useState('')
+  const [error, setError] = useState('')
+  const [starting, setStarting] = useState(false)
+  // One request at a time: a timed-out answer and a click can race otherwise
+  const busyRef = useRef(false)
+  const questionShownAtRef = useRef(0)
+
+  useEffect(() => {
+    let cancelled = false
+    assignmentAPI.getByCode(code)
+      .then((data) => {
+        if (!cancelled) setAssignment(data)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        setLoadError(err instanceof ApiError && err.status === 404
+          ? `No assignment found with code ${code}. Check the link from your teacher.`
+          : 'Could not load this assignment. Check your connection and try again.')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [code])
+
+  const advance = useCallback(async (token: string) => {
+    if (busyRef.current) return
+    busyRef.current = true
+    setError('')
+    try {
+      const first = await assignmentAPI.next(code, token)
+      setState((prev) => applyStep(prev, first))
+      // The Marathon clock is running already, so fetch its first question straight away
+      const step = first.type === 'marathon_start' ? await assignmentAPI.next(code, token) : first
+      if (step !== first) setState((prev) => applyStep(prev, step))
+      if (step.type === 'question') questionShownAtRef.current = Date.now()
+      if (step.type === 'assignment_complete') {
+        const { score } = step
+        setAttempt((prev) => {
+          if (!prev) return prev
+          const updated = { ...prev, score, completed: true }
+          assignmentAPI.storeAttempt(code, updated)
+          return updated
+        })
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Try again.')
+    } finally {
+      busyRef.current = false
+    }
+  }, [code])
+
+  // Resume where a stored attempt left off
+  const attemptToken = attempt?.attempt_token
+  const attemptCompleted = attempt?.completed ?? false
+  useEffect(() => {
+    if (!attemptToken || attemptCompleted || !assignment) return
+    advance(attemptToken)
+  }, [attemptToken, attemptCompleted, assignment, advance])
+
+  const submitAnswer = useCallback(async (answerIndex: number | null, skipped: boolean) => {
+    const question = state.currentQuestion
+    if (!attemptToken || !question || busyRef.current) return
+
+    const marathon = state.phase === 'marathon'
+    // Marathon has no per-question countdown, so measure from when the question arrived
+    const elapsedMs = marathon
+      ? Date.now() - questionShownAtRef.current
+      : (question.time_limit - state.timeRemaining) * 1000
+    const timeMs = normalizeAnswerTime(elapsedMs, question.time_multiplier)
+
+    setState((prev) => ({ ...prev, selectedAnswer: answerIndex, skipped }))
+    busyRef.current = true
+    setError('')
+    try {
+      const result = await assignmentAPI.answer(code, attemptToken, {
+        question_id: question.question_id,
+        answer_index: answerIndex,
+        ...(skipped && { skipped: true }),
+        time_ms: timeMs,
+      })
+      setState((prev) => {
+        if (prev.marathon) {
+          return {
+            ...prev,
+            lastResult: result,
+            score: result.new_total,
+            marathon: {
+              ...prev.marathon,
+              streak: result.streak ?? (result.correct ? prev.marathon.streak + 1 : 0),
+              multiplier: result.multiplier ?? prev.marathon.multiplier,
+            },
+          }
+        }
+        return { ...prev, phase: 'result', lastResult: result, score: result.new_total }
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not submit your answer. Try again.')
+      setState((prev) => ({ ...prev, selectedAnswer: null, skipped: false }))
+      return
+    } finally {
+      busyRef.current = false
+    }
+    if (marathon) advance(attemptToken)
+  }, [code, attemptToken, state.currentQuestion, state.phase, state.timeRemaining, advance])
+
+  // Question countdown; running out submits no answer, which scores like a live timeout
+  const currentQuestionId = state.currentQuestion?.question_id ?? null
+  useEffect(() => {
+    if (state.phase !== 'question') return
+    const interval = setInterval(() => {
+      setState((prev) => (prev.timeRemaining > 0 ? { ...prev, timeRemaining: prev.timeRemaining - 1 } : prev))
+    }, 1000)
+    return () => clearInterval(interval)
+  }, [state.phase, currentQuestionId])
+
+  const timedOut = state.phase === 'question'
+    && state.timeRemaining <= 0
+    && state.selectedAnswer === null
+    && !state.skipped
+  useEffect(() => {
+    if (timedOut) submitAnswer(null, false)
+  }, [timedOut, submitAnswer])
+
+  // The server ends the Marathon once its clock is up; ask for the summary then
+  const marathonEndsAt = state.marathon?.endsAt
+  useEffect(() => {
+    if (!marathonEndsAt || !attemptToken) return
+    const timeout = setTimeout(() => advance(attemptToken), Math.max(0, marathonEndsAt - Date.now()))
+    return () => clearTimeout(timeout)
+  }, [marathonEndsAt, attemptToken, advance])
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmedName = name.trim()
+    if (trimmedName.length < 2) {
+      setError('Name must be at least 2 characters')
+      return
+    }
+    if (trimmedName.length > 20) {
+      setError('Name must be 20 characters or less')
+      return
+    }
+
+    setStarting(true)
+    setError('')
+    try {
+      const started = await assignmentAPI.start(code, trimmedName)
+      assignmentAPI.storeAttempt(code, started)
+      setAttempt(started)
+      setState({ ...INITIAL_STATE, score: started.score })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not start the assignment. Try again.')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const handleWager = async (amount: number) => {
+    const { wagerPrompt, submittedWager } = state
+    if (!attemptToken || !wagerPrompt || submittedWager !== null || busyRef.current) return
+
+    setState((prev) => ({ ...prev, submittedWager: amount }))
+    busyRef.current = true
+    try {
+      await assignmentAPI.wager(code, attemptToken, wagerPrompt.question_id, amount)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not place your wager. Try again.')
+      setState((prev) => ({ ...prev, submittedWager: null }))
+      return
+    } finally {
+      busyRef.current = false
+    }
+    advance(attemptToken)
+  }
+
+  const handleStartOver = () => {
+    assignmentAPI.clearAttempt(code)
+    setAttempt(null)
+    setState(INITIAL_STATE)
+  }
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <p role="alert" className="w-full max-w-sm p-4 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 text-center">
+          {loadError}
+        </p>
+      </div>
+    )
+  }
+
+  if (!assignment) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-white/60" role="status">
+        Loading assignment...
+      </div>
+    )
+  }
+
+  const pastDue = new Date(assignment.due_at).getTime() < Date.now()
+
+  // Start screen: nothing in progress on this device yet
+  if (!attempt) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-6">
+        <h1 className="text-[var(--ice)] font-bold text-3xl mb-2" style={{ fontFamily: 'var(--font-display)' }}>
+          Quiz Party
+        </h1>
+        <p className="text-white/40 mb-8">Homework</p>
+
+        <div className="glass rounded-xl p-4 w-full max-w-sm mb-4 text-center">
+          <p className="text-white font-bold text-lg">{assignment.name}</p>
+          <p className="text-2xl my-2" aria-label={assignment.rounds.map((r) => GAME_INFO[r.game_type].name).join(', ')}>
+            {assignment.rounds.map((r) => GAME_INFO[r.game_type].emoji).join(' ')}
+          </p>
+          <p className={`text-sm ${pastDue ? 'text-red-400' : 'text-white/50'}`}>
+            {pastDue ? 'Closed' : 'Due'} {formatDueDate(assignment.due_at)}
+          </p>
+        </div>
+
+        {pastDue ? (
+          <p role="alert" className="w-full max-w-sm p-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 text-sm text-center">
+            This assignment is past its due date.
+          </p>
+        ) : (
+          <form onSubmit={handleStart} className="w-full max-w-sm space-y-4">
+            <input
+              type="text"
+              placeholder="Your name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={20}
+              autoFocus
+              className="w-full text-center text-lg py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder:text-white/30 focus:outline-none focus:border-[var(--ice)]"
+            />
+            <button
+              type="submit"
+              disabled={starting || !name.trim()}
+              className="w-full py-4 bg-[var(--ice)] text-[var(--deep-sea)] font-bold text-lg rounded-xl disabled:opacity-40 active:scale-[0.97] transition-transform"
+            >
+              {starting ? 'Starting...' : 'START'}
+            </button>
+            {error && <p role="alert" aria-live="polite" className="text-red-400 text-sm text-center">{error}</p>}
+          </form>
+        )}
+      </div>
+    )
+  }
+
+  const gameInfo = state.intro ? GAME_INFO[state.intro.game_type] : null
+  const continueButton = 'w-full max-w-md mt-4 py-4 bg-[var(--ice)] text-[var(--deep-sea)] font-bold text-lg rounded-xl disabled:opacity-40 active:scale-[0.97] transition-transform'
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <PlayerHeader displayName={attempt.display_name} teamName={assignment.name} score={state.score} />
+
+      <main className="flex-1 flex flex-col items-center justify-center p-4">
+        {error && (
+          <div role="alert" className="w-full max-w-md mb-4 p-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 text-sm text-center">
+            {error}
+            {state.phase !== 'question' && state.phase !== 'marathon' && !attempt.completed && (
+              <button onClick={() => advance(attempt.attempt_token)} className="block mx-auto mt-2 underline">
+                Try again
+              </button>
+            )}
+          </div>
+        )}
+
+        {state.phase === 'loading' && !attempt.completed && (
+          <p className="text-white/60" role="status">Loading your progress...</p>
+        )}
+
+        {state.phase === 'intro' && state.intro && gameInfo && (
+          <>
+            <p className="text-white/50 text-sm mb-3">
+              Round {state.intro.round_number} of {state.intro.total_rounds}
+            </p>
+            <GameIntroDisplay gameInfo={gameInfo} />
+            <button onClick={() => advance(attempt.attempt_token)} className={continueButton}>
+              Start round
+            </button>
+          </>
+        )}
+
+        {state.phase === 'wager' && state.wagerPrompt && (
+          <WagerDisplay
+            key={state.wagerPrompt.question_id}
+            category={state.wagerPrompt.category}
+            bankroll={state.wagerPrompt.bankroll}
+            minWager={state.wagerPrompt.min_wager}
+            submittedWager={state.submittedWager}
+            onSubmit={handleWager}
+          />
+        )}
+
+        {state.phase === 'question' && state.currentQuestion && (
+          <QuestionDisplay
+            questionId={state.currentQuestion.question_id}
+            questionText={state.currentQuestion.question_text}
+            options={state.currentQuestion.options}
+            timeRemaining={state.timeRemaining}
+            selectedAnswer={state.selectedAnswer}
+            onAnswer={(index) => submitAnswer(index, false)}
+            onSkip={state.currentQuestion.game_type === 'sharpshooter' ? () => submitAnswer(null, true) : undefined}
+            skipped={state.skipped}
+            wrongPenalty={state.currentQuestion.wrong_penalty}
+            hiddenOptions={state.currentQuestion.hidden_option_indexes}
+            readAloud={state.currentQuestion.read_aloud}
+          />
+        )}
+
+        {state.phase === 'result' && state.lastResult && (
+          <>
+            <ResultDisplay
+              correct={state.lastResult.correct}
+              pointsEarned={state.lastResult.points_earned}
+              explanation={state.lastResult.explanation}
+              skipped={state.lastResult.skipped}
+            />
+            <button onClick={() => advance(attempt.attempt_token)} className={continueButton}>
+              Next
+            </button>
+          </>
+        )}
+
+        {state.phase === 'marathon' && state.marathon && (
+          <MarathonDisplay
+            endsAt={state.marathon.endsAt}
+            streak={state.marathon.streak}
+            multiplier={state.marathon.multiplier}
+            lastCorrect={state.lastResult?.correct ?? null}
+            question={state.currentQuestion}
+            selectedAnswer={state.selectedAnswer}
+            onAnswer={(index) => submitAnswer(index, false)}
+          />
+        )}
+
+        {state.phase === 'marathon_summary' && state.marathonSummary && (
+          <>
+            <MarathonSummaryDisplay
+              questionsAttempted={state.marathonSummary.questions_attempted}
+              questionsCorrect={state.marathonSummary.questions_correct}
+              bestStreak={state.marathonSummary.best_streak}
+              pointsEarned={state.marathonSummary.points_earned}
+            />
+            <button onClick={() => advance(attempt.attempt_token)} className={continueButton}>
+              Continue
+            </button>
+          </>
+        )}
+
+        {(state.phase === 'complete' || attempt.completed) && (
+          <div className="text-center glass rounded-2xl p-8 w-full max-w-md" role="status" aria-live="polite">
+            <div className="text-6xl mb-4" aria-hidden="true">🎉</div>
+            <h2 className="text-2xl font-bold text-white mb-2">Assignment complete!</h2>
+            <p className="text-[var(--ice)] text-3xl font-bold mb-2">{state.complete?.score ?? attempt.score} points</p>
+            {state.complete && (
+              <p className="text-white/60 mb-4">
+                {state.complete.questions_correct} of {state.complete.questions_answered} correct
+              </p>
+            )}
+            <p className="text-white/40 text-sm mb-4">Your teacher can see your results.</p>
+            {!pastDue && (
+              <button onClick={handleStartOver} className="text-white/40 text-sm underline">
+                Not {attempt.display_name}? Start over
+              </button>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
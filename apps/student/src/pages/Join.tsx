@@ -1,17 +1,73 @@
-import { useState } from 'react'
-import { useNavigate } from 'react-router-dom'
-import { playerAPI, type PlayerSession } from '@quiz-party/shared'
+import { useState, useEffect } from 'react'
+import { useNavigate, useLocation, useParams, useSearchParams } from 'react-router-dom'
+import { playerAPI, sessionAPI, ApiError, type PlayerSession, type SessionConfig } from '@quiz-party/shared'
+
+// Game code format (alphanumeric, 4-6 characters)
+const CODE_PATTERN = /^[A-Z0-9]{4,6}$/
+
+type LinkedSession =
+  | { status: 'loading' }
+  | { status: 'ready'; session: SessionConfig }
+  | { status: 'error'; message: string }
+
+function normalizeCode(raw: string | null | undefined): string {
+  return (raw ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+// Why a linked session can't be joined, or null if it can
+function getUnjoinableReason(session: SessionConfig): string | null {
+  if (session.status === 'ended') return 'This game has ended. Ask your teacher for a new code.'
+  if (session.locked) return 'This game is locked. Ask your teacher to let you in.'
+  // Only the server knows its default cap, so judge fullness from an explicit one
+  const maxPlayers = session.max_players
+  if (typeof maxPlayers === 'number' && session.player_count !== null && session.player_count >= maxPlayers) {
+    return 'This game is full.'
+  }
+  return null
+}
 
 export function Join() {
   const navigate = useNavigate()
-  const [code, setCode] = useState('')
+  const location = useLocation()
+  // Set when the host removed this player from their last game
+  const notice = (location.state as { notice?: string } | null)?.notice
+  // Deep links: /join/ABC123 or /join?code=ABC123 (the QR code uses the latter)
+  const params = useParams<{ code: string }>()
+  const [searchParams] = useSearchParams()
+  const linkedCode = normalizeCode(params.code ?? searchParams.get('code'))
+  const hasLinkedCode = CODE_PATTERN.test(linkedCode)
+
+  const [code, setCode] = useState(linkedCode.slice(0, 6))
   const [name, setName] = useState('')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
   const [showNewGameForm, setShowNewGameForm] = useState(false)
+  const [linked, setLinked] = useState<LinkedSession | null>(hasLinkedCode ? { status: 'loading' } : null)
+
+  // Pre-validate a linked code so students see what they're joining before typing a name
+  useEffect(() => {
+    if (!hasLinkedCode) return
+    let cancelled = false
+    setLinked({ status: 'loading' })
+    sessionAPI.getByCode(linkedCode)
+      .then((session) => {
+        if (!cancelled) setLinked({ status: 'ready', session })
+      })
+      .catch((err) => {
+        if (cancelled) return
+        const message = err instanceof ApiError && err.status === 404
+          ? `No game found with code ${linkedCode}. Check the code and try again.`
+          : 'Could not load this game. Check your connection and try again.'
+        setLinked({ status: 'error', message })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [hasLinkedCode, linkedCode])
 
-  // Check for existing session
-  const existing = !showNewGameForm ? playerAPI.getStoredSession() : null
+  // Check for existing session; a link to a different game goes straight to the join form
+  const stored = !showNewGameForm ? playerAPI.getStoredSession() : null
+  const existing = stored && (!hasLinkedCode || stored.sessionCode === linkedCode) ? stored : null
 
   const handleReconnect = async (session: PlayerSession) => {
     setLoading(true)
@@ -70,9 +126,7 @@ export function Join() {
     const trimmedCode = code.trim().toUpperCase()
     const trimmedName = name.trim()
 
-    // Validate game code format (alphanumeric, 4-6 characters)
-    const codePattern = /^[A-Z0-9]{4,6}$/
-    if (!codePattern.test(trimmedCode)) {
+    if (!CODE_PATTERN.test(trimmedCode)) {
       setError('Enter a valid game code (4-6 alphanumeric characters)')
       return
     }
@@ -106,29 +160,71 @@ export function Join() {
     }
   }
 
+  const linkedSession = linked?.status === 'ready' ? linked.session : null
+  const linkedProblem = linked?.status === 'error'
+    ? linked.message
+    : linkedSession ? getUnjoinableReason(linkedSession) : null
+  // A good link skips straight to the name step
+  const skipCodeStep = !!linkedSession && !linkedProblem
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-6">
       <h1 className="text-[var(--ice)] font-bold text-3xl mb-2" style={{ fontFamily: 'var(--font-display)' }}>
         Quiz Party
       </h1>
-      <p className="text-white/40 mb-8">Enter the code from the screen</p>
+      <p className="text-white/40 mb-8">
+        {skipCodeStep ? 'Enter your name to join' : 'Enter the code from the screen'}
+      </p>
+
+      {notice && (
+        <p role="status" className="w-full max-w-sm mb-4 p-3 rounded-xl bg-amber-500/10 border border-amber-500/30 text-amber-300 text-sm text-center">
+          {notice}
+        </p>
+      )}
+
+      {linked?.status === 'loading' && (
+        <p role="status" aria-live="polite" className="text-white/60 text-sm mb-4">
+          Finding game {linkedCode}...
+        </p>
+      )}
+
+      {linkedSession && (
+        <div className="glass rounded-xl p-4 w-full max-w-sm mb-4 text-center">
+          <p className="text-white font-bold text-lg">{linkedSession.name}</p>
+          <p className="text-white/50 text-sm">
+            <span className="font-mono text-[var(--ice)]">{linkedCode}</span>
+            {' · '}
+            {linkedSession.status === 'lobby' ? 'Waiting to start' : linkedSession.status === 'ended' ? 'Ended' : 'Game in progress'}
+            {linkedSession.player_count !== null && ` · ${linkedSession.player_count} joined`}
+          </p>
+        </div>
+      )}
+
+      {linkedProblem && (
+        <p role="alert" className="w-full max-w-sm mb-4 p-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 text-sm text-center">
+          {linkedProblem}
+        </p>
+      )}
 
       <form onSubmit={handleJoin} className="w-full max-w-sm space-y-4">
-        <input
-          type="text"
-          placeholder="GAME CODE"
-          value={code}
-          onChange={(e) => setCode(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ''))}
-          maxLength={6}
-          autoFocus
-          className="w-full text-center font-mono text-3xl tracking-[0.3em] py-4 bg-white/5 border border-white/10 rounded-xl text-white placeholder:text-white/20 focus:outline-none focus:border-[var(--ice)]"
-        />
+        {!skipCodeStep && (
+          <input
+            type="text"
+            placeholder="GAME CODE"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ''))}
+            maxLength={6}
+            autoFocus
+            className="w-full text-center font-mono text-3xl tracking-[0.3em] py-4 bg-white/5 border border-white/10 rounded-xl text-white placeholder:text-white/20 focus:outline-none focus:border-[var(--ice)]"
+          />
+        )}
         <input
           type="text"
           placeholder="Your name"
           value={name}
           onChange={(e) => setName(e.target.value)}
           maxLength={20}
+          autoFocus={skipCodeStep}
           className="w-full text-center text-lg py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder:text-white/30 focus:outline-none focus:border-[var(--ice)]"
         />
         <button
@@ -139,6 +235,18 @@ export function Join() {
           {loading ? 'Joining...' : 'JOIN'}
         </button>
         {error && <p role="alert" aria-live="polite" className="text-red-400 text-sm text-center">{error}</p>}
+        {skipCodeStep && (
+          <button
+            type="button"
+            onClick={() => {
+              setLinked(null)
+              setCode('')
+            }}
+            className="w-full text-white/40 text-sm underline"
+          >
+            Use a different code
+          </button>
+        )}
       </form>
     </div>
   )
@@ -1,22 +1,50 @@
-import { useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { useWebSocket, playerAPI } from '@quiz-party/shared'
-import type { WebSocketMessageData } from '@quiz-party/shared'
+import type { WebSocketMessageData, PlayerSession } from '@quiz-party/shared'
+
+// How long the "you've been moved" highlight stays on screen
+const TEAM_CHANGE_HIGHLIGHT_MS = 3000
 
 export function Lobby() {
   const { code } = useParams<{ code: string }>()
   const navigate = useNavigate()
-  const session = playerAPI.getStoredSession()
+  // Held in state so host renames and team moves show up immediately
+  const [session, setSession] = useState(() => playerAPI.getStoredSession())
+
+  const [teamChanged, setTeamChanged] = useState(false)
+
+  const updateSession = useCallback((changes: Partial<PlayerSession>) => {
+    setSession((prev) => {
+      if (!prev) return prev
+      const updated = { ...prev, ...changes }
+      playerAPI.storeSession(updated)
+      return updated
+    })
+  }, [])
 
   const handleMessage = useCallback((data: WebSocketMessageData) => {
     if (data.type === 'game_intro' || data.type === 'question') {
       navigate(`/play/${code}`)
     }
+    if (data.type === 'player_renamed') {
+      updateSession({ displayName: data.display_name })
+    }
+    if (data.type === 'team_changed') {
+      updateSession({ teamId: data.team_id, teamName: data.team_name })
+      setTeamChanged(true)
+    }
+    if (data.type === 'kicked') {
+      playerAPI.clearSession()
+      navigate('/join', {
+        state: { notice: data.reason || 'The host removed you from this game.' },
+      })
+    }
     if (data.type === 'session_ended') {
       playerAPI.clearSession()
       navigate('/join')
     }
-  }, [code, navigate])
+  }, [code, navigate, updateSession])
 
   const { isConnected, connectionStatus } = useWebSocket({
     sessionCode: code || '',
@@ -27,6 +55,12 @@ export function Lobby() {
     enabled: !!code && !!session,
   })
 
+  useEffect(() => {
+    if (!teamChanged) return
+    const timeout = setTimeout(() => setTeamChanged(false), TEAM_CHANGE_HIGHLIGHT_MS)
+    return () => clearTimeout(timeout)
+  }, [teamChanged])
+
   useEffect(() => {
     if (!session) {
       navigate('/join')
@@ -46,7 +80,14 @@ export function Lobby() {
         <div className="mb-8">
           <p className="text-white text-xl font-bold mb-1">{session.displayName}</p>
           {session.teamName && (
-            <p className="text-[var(--ice)] text-sm">Team: {session.teamName}</p>
+            <p
+              aria-live="polite"
+              className={`text-[var(--ice)] text-sm inline-block px-2 py-0.5 rounded-full transition-colors duration-500 ${
+                teamChanged ? 'bg-[var(--ice)]/20 font-bold' : ''
+              }`}
+            >
+              {teamChanged ? 'Moved to' : 'Team:'} {session.teamName}
+            </p>
           )}
         </div>
 
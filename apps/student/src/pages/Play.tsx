@@ -10,51 +10,177 @@ import { useParams, useNavigate } from 'react-router-dom'
 import {
   useWebSocket,
   playerAPI,
+  normalizeAnswerTime,
   type WSPlayerQuestion,
+  type WSWagerPrompt,
   type WSAnswerResult,
+  type WSEliminated,
+  type WSSurvivorUpdate,
+  type WSMarathonSummary,
+  type WSStealWindow,
+  type WSStealClosed,
+  type WSRandomEvent,
+  type Award,
+  type WSPlayerReviewQuestion,
   type MiniGameType,
   type PlayerWSMessage,
   GAME_INFO,
   isPlayerQuestion,
+  isWagerPrompt,
   isAnswerResult,
   isGameIntro,
   isRoundResults,
+  isEliminated,
+  isSurvivorUpdate,
+  isPartnerPaired,
+  isPartnerStatus,
+  isMarathonStart,
+  isMarathonSummary,
+  isStealWindow,
+  isStealClosed,
+  isRandomEvent,
+  isAwards,
+  isReviewQuestion,
+  isReviewEnded,
+  isTimerUpdate,
+  isQuestionVoided,
+  isKicked,
+  isPlayerRenamed,
+  isTeamChanged,
   isSessionEnded,
 } from '@quiz-party/shared'
 import {
   PlayerHeader,
   WaitingDisplay,
   GameIntroDisplay,
+  WagerDisplay,
   QuestionDisplay,
   ResultDisplay,
+  SpectatorDisplay,
+  PartnerBadge,
+  MarathonDisplay,
+  MarathonSummaryDisplay,
+  StealDisplay,
+  RandomEventBanner,
+  AwardDisplay,
+  ReviewDisplay,
+  PausedOverlay,
+  RoundStandingDisplay,
   GameEndDisplay,
 } from '../components'
 
+interface KnockoutState {
+  survivorsRemaining: number
+  totalPlayers: number
+  nextGameAt: number | null
+}
+
+interface PartnerState {
+  name: string
+  lockedIn: boolean
+}
+
+interface MarathonState {
+  /** Epoch ms when the session-wide Marathon clock runs out */
+  endsAt: number
+  streak: number
+  multiplier: number
+  summary: WSMarathonSummary | null
+}
+
+interface StealState {
+  window: WSStealWindow
+  /** Epoch ms when the steal window closes */
+  closesAt: number
+  selectedAnswer: number | null
+  closed: WSStealClosed | null
+}
+
+interface RoundStanding {
+  rank: number
+  totalPlayers: number
+  rankChange: number | null
+}
+
+function toKnockoutState(msg: WSEliminated | WSSurvivorUpdate): KnockoutState {
+  return {
+    survivorsRemaining: msg.survivors_remaining,
+    totalPlayers: msg.total_players,
+    nextGameAt: msg.next_game_in !== null ? Date.now() + msg.next_game_in * 1000 : null,
+  }
+}
+
 interface GameState {
-  phase: 'waiting' | 'question' | 'result' | 'intermission' | 'ended'
+  phase:
+    | 'waiting'
+    | 'wager'
+    | 'question'
+    | 'result'
+    | 'intermission'
+    | 'eliminated'
+    | 'marathon'
+    | 'marathon_summary'
+    | 'steal'
+    | 'awards'
+    | 'review'
+    | 'round_results'
+    | 'ended'
   currentQuestion: WSPlayerQuestion | null
+  wagerPrompt: WSWagerPrompt | null
+  submittedWager: number | null
   lastResult: WSAnswerResult | null
   selectedAnswer: number | null
+  skipped: boolean
   timeRemaining: number
   score: number
   currentGame: MiniGameType | null
+  knockout: KnockoutState | null
+  partner: PartnerState | null
+  marathon: MarathonState | null
+  steal: StealState | null
+  randomEvent: WSRandomEvent | null
+  myAwards: Award[]
+  review: WSPlayerReviewQuestion | null
+  paused: boolean
+  standing: RoundStanding | null
+}
+
+function phaseForQuestion(prev: GameState): GameState['phase'] {
+  // Knocked-out players keep watching the live question read-only
+  if (prev.phase === 'eliminated') return 'eliminated'
+  // Marathon questions chain without a result screen in between
+  return prev.marathon ? 'marathon' : 'question'
 }
 
 export function Play() {
   const { code } = useParams<{ code: string }>()
   const navigate = useNavigate()
-  const session = playerAPI.getStoredSession()
+  // Held in state so host renames and team moves re-render the header
+  const [session, setSession] = useState(() => playerAPI.getStoredSession())
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
   const lastQuestionIdRef = useRef<string | null>(null)
+  const questionShownAtRef = useRef(0)
 
   const [state, setState] = useState<GameState>({
     phase: 'waiting',
     currentQuestion: null,
+    wagerPrompt: null,
+    submittedWager: null,
     lastResult: null,
     selectedAnswer: null,
+    skipped: false,
     timeRemaining: 0,
     score: 0,
     currentGame: null,
+    knockout: null,
+    partner: null,
+    marathon: null,
+    steal: null,
+    randomEvent: null,
+    myAwards: [],
+    review: null,
+    paused: false,
+    standing: null,
   })
 
   // Handle WebSocket messages with type guards
@@ -64,34 +190,180 @@ export function Play() {
         ...prev,
         phase: 'intermission',
         currentGame: msg.game_type,
+        knockout: null,
+        partner: null,
+        marathon: null,
+        steal: null,
+        randomEvent: null,
+      }))
+    } else if (isWagerPrompt(msg)) {
+      setState((prev) => ({
+        ...prev,
+        phase: 'wager',
+        wagerPrompt: msg,
+        submittedWager: null,
+        currentGame: 'high_stakes',
       }))
     } else if (isPlayerQuestion(msg)) {
+      questionShownAtRef.current = Date.now()
       setState((prev) => ({
         ...prev,
-        phase: 'question',
+        phase: phaseForQuestion(prev),
         currentQuestion: msg,
         selectedAnswer: null,
+        skipped: false,
         timeRemaining: msg.time_limit,
         currentGame: msg.game_type,
+        partner: prev.partner ? { ...prev.partner, lockedIn: false } : null,
       }))
     } else if (isAnswerResult(msg)) {
+      setState((prev) => {
+        if (prev.marathon) {
+          return {
+            ...prev,
+            lastResult: msg,
+            score: msg.new_total,
+            marathon: {
+              ...prev.marathon,
+              streak: msg.streak ?? (msg.correct ? prev.marathon.streak + 1 : 0),
+              multiplier: msg.multiplier ?? prev.marathon.multiplier,
+            },
+          }
+        }
+        return {
+          ...prev,
+          phase: prev.phase === 'eliminated' ? 'eliminated' : 'result',
+          lastResult: msg,
+          score: msg.new_total,
+        }
+      })
+    } else if (isStealWindow(msg)) {
+      setState((prev) => ({
+        ...prev,
+        phase: 'steal',
+        steal: {
+          window: msg,
+          closesAt: Date.now() + msg.time_limit * 1000,
+          selectedAnswer: null,
+          closed: null,
+        },
+      }))
+    } else if (isStealClosed(msg)) {
+      setState((prev) => {
+        if (!prev.steal || prev.steal.window.steal_id !== msg.steal_id) return prev
+        return {
+          ...prev,
+          score: msg.new_total,
+          steal: { ...prev.steal, closed: msg },
+        }
+      })
+    } else if (isAwards(msg)) {
+      setState((prev) => ({
+        ...prev,
+        phase: 'awards',
+        randomEvent: null,
+        myAwards: msg.awards.filter((a) => a.winner_id === session?.playerId),
+      }))
+    } else if (isReviewQuestion(msg)) {
+      if (!('missed_indexes' in msg)) return
+      setState((prev) => ({ ...prev, phase: 'review', review: msg }))
+    } else if (isReviewEnded(msg)) {
+      // Review comes after awards, so the game is over
+      setState((prev) => ({ ...prev, phase: 'ended', review: null }))
+    } else if (isTimerUpdate(msg)) {
+      setState((prev) => ({
+        ...prev,
+        paused: msg.paused,
+        timeRemaining: msg.time_remaining,
+        marathon: prev.marathon
+          ? { ...prev.marathon, endsAt: Date.now() + msg.time_remaining * 1000 }
+          : null,
+      }))
+    } else if (isQuestionVoided(msg)) {
+      setState((prev) => {
+        if (prev.currentQuestion?.question_id !== msg.question_id) return prev
+        return {
+          ...prev,
+          phase: prev.phase === 'eliminated' ? 'eliminated' : 'waiting',
+          currentQuestion: null,
+        }
+      })
+    } else if (isRandomEvent(msg)) {
+      setState((prev) => ({ ...prev, randomEvent: msg }))
+    } else if (isMarathonStart(msg)) {
+      setState((prev) => ({
+        ...prev,
+        phase: 'marathon',
+        currentGame: 'marathon',
+        lastResult: null,
+        marathon: {
+          endsAt: Date.now() + msg.duration * 1000,
+          streak: 0,
+          multiplier: 1,
+          summary: null,
+        },
+      }))
+    } else if (isMarathonSummary(msg)) {
       setState((prev) => ({
         ...prev,
-        phase: 'result',
-        lastResult: msg,
-        score: msg.new_total,
+        phase: 'marathon_summary',
+        marathon: prev.marathon ? { ...prev.marathon, summary: msg } : null,
       }))
+    } else if (isEliminated(msg)) {
+      setState((prev) => ({
+        ...prev,
+        phase: 'eliminated',
+        knockout: toKnockoutState(msg),
+      }))
+    } else if (isSurvivorUpdate(msg)) {
+      setState((prev) => ({
+        ...prev,
+        knockout: toKnockoutState(msg),
+      }))
+    } else if (isPartnerPaired(msg)) {
+      setState((prev) => ({
+        ...prev,
+        partner: { name: msg.partner_name, lockedIn: false },
+      }))
+    } else if (isPartnerStatus(msg)) {
+      setState((prev) => {
+        if (!prev.partner || prev.currentQuestion?.question_id !== msg.question_id) return prev
+        return { ...prev, partner: { ...prev.partner, lockedIn: msg.locked_in } }
+      })
     } else if (isRoundResults(msg)) {
-      const yourScore = 'your_score' in msg && typeof msg.your_score === 'number' ? msg.your_score : undefined
+      if (!('your_rank' in msg)) return
       setState((prev) => ({
         ...prev,
-        phase: 'intermission',
-        score: yourScore ?? prev.score,
+        phase: 'round_results',
+        score: msg.your_score,
+        marathon: null,
+        standing: {
+          rank: msg.your_rank,
+          totalPlayers: msg.total_players,
+          rankChange: prev.standing ? prev.standing.rank - msg.your_rank : null,
+        },
       }))
+    } else if (isPlayerRenamed(msg)) {
+      setSession((prev) => {
+        if (!prev) return prev
+        const updated = { ...prev, displayName: msg.display_name }
+        playerAPI.storeSession(updated)
+        return updated
+      })
+    } else if (isTeamChanged(msg)) {
+      setSession((prev) => {
+        if (!prev) return prev
+        const updated = { ...prev, teamId: msg.team_id, teamName: msg.team_name }
+        playerAPI.storeSession(updated)
+        return updated
+      })
+    } else if (isKicked(msg)) {
+      playerAPI.clearSession()
+      navigate('/join', { state: { notice: msg.reason || 'The host removed you from this game.' } })
     } else if (isSessionEnded(msg)) {
       setState((prev) => ({ ...prev, phase: 'ended' }))
     }
-  }, [])
+  }, [session?.playerId, navigate])
 
   const { isConnected, send } = useWebSocket<PlayerWSMessage>({
     sessionCode: code || '',
@@ -115,10 +387,8 @@ export function Play() {
 
     timerRef.current = setInterval(() => {
       setState((prev) => {
-        if (prev.timeRemaining <= 1) {
-          if (timerRef.current) clearInterval(timerRef.current)
-          return { ...prev, timeRemaining: 0 }
-        }
+        // Hold at zero without clearing the interval so a host "+10s" resumes the countdown
+        if (prev.paused || prev.timeRemaining <= 0) return prev
         return { ...prev, timeRemaining: prev.timeRemaining - 1 }
       })
     }, 1000)
@@ -135,15 +405,60 @@ export function Play() {
   }, [session, navigate])
 
   const handleAnswer = (index: number) => {
-    const { currentQuestion, selectedAnswer, timeRemaining } = state
-    if (selectedAnswer !== null || !currentQuestion) return
+    const { currentQuestion, selectedAnswer, skipped, timeRemaining, phase } = state
+    if (selectedAnswer !== null || skipped || !currentQuestion) return
+
+    // Marathon has no per-question countdown, so measure from when the question arrived
+    const elapsedMs = phase === 'marathon'
+      ? Date.now() - questionShownAtRef.current
+      : (currentQuestion.time_limit - timeRemaining) * 1000
+    // Extended-time players report standard-clock time so speed scoring stays fair
+    const timeMs = normalizeAnswerTime(elapsedMs, currentQuestion.time_multiplier)
 
     setState((prev) => ({ ...prev, selectedAnswer: index }))
     send({
       type: 'answer',
       question_id: currentQuestion.question_id,
       answer_index: index,
-      time_ms: (currentQuestion.time_limit - timeRemaining) * 1000,
+      time_ms: timeMs,
+    })
+  }
+
+  const handleSkip = () => {
+    const { currentQuestion, selectedAnswer, skipped } = state
+    if (selectedAnswer !== null || skipped || !currentQuestion) return
+
+    setState((prev) => ({ ...prev, skipped: true }))
+    send({
+      type: 'skip_question',
+      question_id: currentQuestion.question_id,
+    })
+  }
+
+  const handleStealAttempt = (index: number) => {
+    const { steal } = state
+    if (!steal || steal.selectedAnswer !== null || steal.closed || !steal.window.eligible) return
+
+    setState((prev) => ({
+      ...prev,
+      steal: prev.steal ? { ...prev.steal, selectedAnswer: index } : null,
+    }))
+    send({
+      type: 'steal_attempt',
+      steal_id: steal.window.steal_id,
+      answer_index: index,
+    })
+  }
+
+  const handleWager = (amount: number) => {
+    const { wagerPrompt, submittedWager } = state
+    if (submittedWager !== null || !wagerPrompt) return
+
+    setState((prev) => ({ ...prev, submittedWager: amount }))
+    send({
+      type: 'submit_wager',
+      question_id: wagerPrompt.question_id,
+      amount,
     })
   }
 
@@ -158,6 +473,8 @@ export function Play() {
 
   return (
     <div className="min-h-screen flex flex-col">
+      {state.paused && state.phase !== 'ended' && <PausedOverlay />}
+
       <PlayerHeader
         displayName={session.displayName}
         teamName={session.teamName}
@@ -165,6 +482,11 @@ export function Play() {
       />
 
       <main className="flex-1 flex flex-col items-center justify-center p-4">
+        {/* Chaos events stay pinned until the next mini-game starts */}
+        {state.randomEvent && state.phase !== 'ended' && (
+          <RandomEventBanner event={state.randomEvent} />
+        )}
+
         {state.phase === 'waiting' && (
           <WaitingDisplay isConnected={isConnected} />
         )}
@@ -173,6 +495,21 @@ export function Play() {
           <GameIntroDisplay gameInfo={gameInfo} />
         )}
 
+        {state.phase === 'wager' && state.wagerPrompt && (
+          <WagerDisplay
+            key={state.wagerPrompt.question_id}
+            category={state.wagerPrompt.category}
+            bankroll={state.wagerPrompt.bankroll}
+            minWager={state.wagerPrompt.min_wager}
+            submittedWager={state.submittedWager}
+            onSubmit={handleWager}
+          />
+        )}
+
+        {state.phase === 'question' && state.partner && (
+          <PartnerBadge partnerName={state.partner.name} lockedIn={state.partner.lockedIn} />
+        )}
+
         {state.phase === 'question' && state.currentQuestion && (
           <QuestionDisplay
             questionId={state.currentQuestion.question_id}
@@ -181,6 +518,11 @@ export function Play() {
             timeRemaining={state.timeRemaining}
             selectedAnswer={state.selectedAnswer}
             onAnswer={handleAnswer}
+            onSkip={state.currentQuestion.game_type === 'sharpshooter' ? handleSkip : undefined}
+            skipped={state.skipped}
+            wrongPenalty={state.currentQuestion.wrong_penalty}
+            hiddenOptions={state.currentQuestion.hidden_option_indexes}
+            readAloud={state.currentQuestion.read_aloud}
           />
         )}
 
@@ -189,6 +531,86 @@ export function Play() {
             correct={state.lastResult.correct}
             pointsEarned={state.lastResult.points_earned}
             explanation={state.lastResult.explanation}
+            skipped={state.lastResult.skipped}
+            teamUpOutcome={state.lastResult.team_up_outcome}
+            partnerName={state.partner?.name}
+          />
+        )}
+
+        {state.phase === 'marathon' && state.marathon && (
+          <MarathonDisplay
+            endsAt={state.marathon.endsAt}
+            streak={state.marathon.streak}
+            multiplier={state.marathon.multiplier}
+            lastCorrect={state.lastResult?.correct ?? null}
+            question={state.currentQuestion}
+            selectedAnswer={state.selectedAnswer}
+            onAnswer={handleAnswer}
+            paused={state.paused}
+          />
+        )}
+
+        {state.phase === 'marathon_summary' && state.marathon?.summary && (
+          <MarathonSummaryDisplay
+            questionsAttempted={state.marathon.summary.questions_attempted}
+            questionsCorrect={state.marathon.summary.questions_correct}
+            bestStreak={state.marathon.summary.best_streak}
+            pointsEarned={state.marathon.summary.points_earned}
+          />
+        )}
+
+        {state.phase === 'steal' && state.steal && (
+          <StealDisplay
+            stealId={state.steal.window.steal_id}
+            questionText={state.steal.window.question_text}
+            options={state.steal.window.options}
+            victimTeamName={state.steal.window.victim_team_name}
+            closesAt={state.steal.closesAt}
+            eligible={state.steal.window.eligible}
+            selectedAnswer={state.steal.selectedAnswer}
+            onAttempt={handleStealAttempt}
+            outcome={state.steal.closed && {
+              youStole: state.steal.closed.you_stole,
+              thiefName: state.steal.closed.thief_name,
+              thiefTeamName: state.steal.closed.thief_team_name,
+              pointsEarned: state.steal.closed.points_earned,
+            }}
+          />
+        )}
+
+        {state.phase === 'eliminated' && state.knockout && (
+          <SpectatorDisplay
+            survivorsRemaining={state.knockout.survivorsRemaining}
+            totalPlayers={state.knockout.totalPlayers}
+            nextGameAt={state.knockout.nextGameAt}
+            questionText={state.currentQuestion?.question_text}
+            options={state.currentQuestion?.options}
+          />
+        )}
+
+        {state.phase === 'round_results' && state.standing && (
+          <RoundStandingDisplay
+            rank={state.standing.rank}
+            totalPlayers={state.standing.totalPlayers}
+            score={state.score}
+            rankChange={state.standing.rankChange}
+          />
+        )}
+
+        {state.phase === 'awards' && (
+          <AwardDisplay awards={state.myAwards} />
+        )}
+
+        {state.phase === 'review' && state.review && (
+          <ReviewDisplay
+            reviewIndex={state.review.review_index}
+            totalReviews={state.review.total_reviews}
+            questionText={state.review.question_text}
+            options={state.review.options}
+            correctIndex={state.review.correct_index}
+            explanation={state.review.explanation}
+            yourAnswerIndex={state.review.your_answer_index}
+            missedIndexes={state.review.missed_indexes}
           />
         )}
 
@@ -3,8 +3,12 @@ import { SignedIn, SignedOut, RedirectToSignIn, UserButton } from '@clerk/clerk-
 import { BookOpen, AlertCircle, PlusCircle } from 'lucide-react'
 import { Dashboard } from './pages/Dashboard'
 import { CreateSession } from './pages/CreateSession'
+import { CreateAssignment } from './pages/CreateAssignment'
+import { AssignmentResults } from './pages/AssignmentResults'
 import { HostScreen } from './pages/HostScreen'
 import { QuestionBanks } from './pages/QuestionBanks'
+import { Present } from './pages/Present'
+import { Remote } from './pages/Remote'
 import { HowItWorksOverlay, useHowItWorks } from './components/HowItWorksOverlay'
 import type { ReactNode } from 'react'
 
@@ -159,6 +163,21 @@ function ProtectedRoute({ children, onHowItWorks }: { children: React.ReactNode;
   )
 }
 
+/* ── Fullscreen Route ────────────────────────────────────────── */
+
+// Signed-in only, but without the nav chrome: the projector shows only the game
+// and the phone remote needs every pixel
+function FullscreenRoute({ children }: { children: React.ReactNode }) {
+  return (
+    <>
+      <SignedIn>{children}</SignedIn>
+      <SignedOut>
+        <RedirectToSignIn />
+      </SignedOut>
+    </>
+  )
+}
+
 /* ── App ─────────────────────────────────────────────────────── */
 
 export default function App() {
@@ -183,6 +202,22 @@ export default function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/assignments/new"
+          element={
+            <ProtectedRoute onHowItWorks={howItWorks.open}>
+              <CreateAssignment />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/assignments/:code"
+          element={
+            <ProtectedRoute onHowItWorks={howItWorks.open}>
+              <AssignmentResults />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/banks"
           element={
@@ -199,6 +234,22 @@ export default function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/present/:code"
+          element={
+            <FullscreenRoute>
+              <Present />
+            </FullscreenRoute>
+          }
+        />
+        <Route
+          path="/remote/:code"
+          element={
+            <FullscreenRoute>
+              <Remote />
+            </FullscreenRoute>
+          }
+        />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
 
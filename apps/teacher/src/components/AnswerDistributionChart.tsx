@@ -0,0 +1,48 @@
+/**
+ * Answer Distribution Chart Component
+ *
+ * Bar chart of how many students picked each option, with the correct
+ * option highlighted, to spot misconceptions at a glance.
+ */
+
+interface AnswerDistributionChartProps {
+  counts: number[];
+  correctIndex: number;
+  totalAnswers: number;
+  /** Option text when known; falls back to letter labels */
+  options?: string[];
+}
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+export function AnswerDistributionChart({ counts, correctIndex, totalAnswers, options }: AnswerDistributionChartProps) {
+  const maxCount = Math.max(1, ...counts);
+
+  return (
+    <div className="flex items-end justify-center gap-4 h-56" role="img" aria-label="Answer distribution">
+      {counts.map((count, i) => {
+        const isCorrect = i === correctIndex;
+        const percent = totalAnswers > 0 ? Math.round((count / totalAnswers) * 100) : 0;
+        return (
+          <div key={i} className="flex flex-col items-center justify-end h-full w-24">
+            <span className="text-white font-bold">{count}</span>
+            <span className="text-white/40 text-xs mb-1">{percent}%</span>
+            <div
+              className={`w-full rounded-t-lg transition-all duration-700 ${
+                isCorrect ? 'bg-green-400' : 'bg-white/25'
+              }`}
+              style={{ height: `${(count / maxCount) * 70}%`, minHeight: '4px' }}
+            />
+            <p
+              className={`mt-2 text-sm text-center line-clamp-2 ${isCorrect ? 'text-green-400 font-bold' : 'text-white/60'}`}
+              title={options?.[i]}
+            >
+              {isCorrect && '✓ '}
+              {options?.[i] ?? OPTION_LETTERS[i] ?? i + 1}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
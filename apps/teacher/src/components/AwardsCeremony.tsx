@@ -0,0 +1,89 @@
+/**
+ * Awards Ceremony Component
+ *
+ * Reveals end-of-session awards one at a time on the projector, then
+ * keeps the full set on screen. The host tab can own the reveal count so a
+ * mirrored projector view follows it read-only.
+ */
+
+import { useState, useEffect } from 'react';
+import type { Award } from '@quiz-party/shared';
+
+interface AwardsCeremonyProps {
+  awards: Award[];
+  /** Awards revealed so far; the ceremony keeps its own count when omitted */
+  revealed?: number;
+  /** Reveals the next award; a ceremony given `revealed` without this is read-only */
+  onReveal?: (revealed: number) => void;
+  revealIntervalMs?: number;
+}
+
+export function AwardsCeremony({ awards, revealed: revealedProp, onReveal, revealIntervalMs = 4000 }: AwardsCeremonyProps) {
+  const [ownRevealed, setOwnRevealed] = useState(0);
+  const revealed = revealedProp ?? ownRevealed;
+  const reveal = revealedProp === undefined ? setOwnRevealed : onReveal;
+  // The last award keeps its spotlight for one step before the summary grid
+  const finished = awards.length === 0 || revealed > awards.length;
+
+  useEffect(() => {
+    if (finished || !reveal) return;
+    // First award appears right away, the rest on a drumroll cadence
+    const timeout = setTimeout(
+      () => reveal(revealed + 1),
+      revealed === 0 ? 500 : revealIntervalMs
+    );
+    return () => clearTimeout(timeout);
+  }, [revealed, finished, reveal, revealIntervalMs]);
+
+  const current = revealed > 0 && !finished ? awards[revealed - 1] : null;
+  const earlier = finished ? awards : awards.slice(0, Math.max(0, revealed - 1));
+
+  return (
+    <div className="glass rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-3xl font-bold text-white" style={{ fontFamily: 'var(--font-display)' }}>
+          Awards Ceremony
+        </h2>
+        {!finished && reveal && (
+          <button
+            onClick={() => reveal(revealed + 1)}
+            className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors"
+          >
+            {revealed >= awards.length ? 'Show all' : 'Next award'}
+          </button>
+        )}
+      </div>
+
+      {current && (
+        <div key={current.award_key} className="animate-banner-in text-center py-8 mb-6" aria-live="polite">
+          <p className="text-8xl mb-4" aria-hidden="true">{current.emoji}</p>
+          <p className="text-ice uppercase tracking-widest text-sm">{current.name}</p>
+          <p className="text-5xl font-bold text-white my-2" style={{ fontFamily: 'var(--font-display)' }}>
+            {current.winner_name}
+          </p>
+          <p className="text-white/60">{current.description}</p>
+          <p className="text-amber-300 font-mono mt-2">{current.stat_value}</p>
+        </div>
+      )}
+
+      {earlier.length > 0 && (
+        <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+          {earlier.map((a) => (
+            <div key={a.award_key} className="p-4 rounded-lg bg-[#0F2A3D] flex items-center gap-3">
+              <span className="text-3xl" aria-hidden="true">{a.emoji}</span>
+              <div className="min-w-0">
+                <p className="text-white/50 text-xs">{a.name}</p>
+                <p className="text-white font-bold truncate">{a.winner_name}</p>
+                <p className="text-white/40 text-xs">{a.stat_value}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {awards.length === 0 && (
+        <p className="text-center text-white/40 py-8">No awards this time</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * Game Sequence Builder Component
+ *
+ * Advanced session setup: pick, reorder and repeat mini-games, with a
+ * question count and time limit for each round.
+ */
+
+import { useState } from 'react';
+import { GAME_INFO, type MiniGameType, type RoundConfig } from '@quiz-party/shared';
+
+interface GameSequenceBuilderProps {
+  /** At least one round; the last can't be removed */
+  rounds: RoundConfig[];
+  onChange: (rounds: RoundConfig[]) => void;
+  /** Games offered for new and changed rounds; defaults to every game */
+  allowedGames?: MiniGameType[];
+}
+
+const MAX_ROUNDS = 10;
+
+const TIME_LIMIT_OPTIONS = [10, 15, 20, 30, 45, 60];
+const MIN_QUESTIONS = 1;
+const MAX_QUESTIONS = 20;
+
+const GAME_TYPES = Object.keys(GAME_INFO) as MiniGameType[];
+
+// Starting sequence: one of each game, as many as there are rounds
+export function defaultRounds(count: number, gameTypes: MiniGameType[] = GAME_TYPES): RoundConfig[] {
+  return gameTypes
+    .slice(0, count)
+    .map((game_type) => ({ game_type, question_count: 5, time_limit: 20 }));
+}
+
+// Keeps the typed text while editing so the field can be cleared and retyped;
+// in-range values reach the round as they're typed, and blur snaps the text back to the saved count
+function QuestionCountInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      type="number"
+      min={MIN_QUESTIONS}
+      max={MAX_QUESTIONS}
+      value={draft ?? value}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const parsed = parseInt(e.target.value);
+        if (parsed >= MIN_QUESTIONS) onChange(Math.min(MAX_QUESTIONS, parsed));
+      }}
+      onBlur={() => setDraft(null)}
+      className="w-14 px-2 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-center focus:outline-none focus:border-ice"
+    />
+  );
+}
+
+export function GameSequenceBuilder({ rounds, onChange, allowedGames = GAME_TYPES }: GameSequenceBuilderProps) {
+  const updateRound = (index: number, changes: Partial<RoundConfig>) => {
+    onChange(rounds.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+  };
+
+  const moveRound = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rounds.length) return;
+    const next = [...rounds];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const duplicateRound = (index: number) => {
+    if (rounds.length >= MAX_ROUNDS) return;
+    onChange([...rounds.slice(0, index + 1), { ...rounds[index] }, ...rounds.slice(index + 1)]);
+  };
+
+  const removeRound = (index: number) => {
+    onChange(rounds.filter((_, i) => i !== index));
+  };
+
+  // New rounds reuse the last round's question count and time limit
+  const addRound = (gameType: MiniGameType) => {
+    if (rounds.length >= MAX_ROUNDS) return;
+    const { question_count, time_limit } = rounds[rounds.length - 1];
+    onChange([...rounds, { game_type: gameType, question_count, time_limit }]);
+  };
+
+  const iconButton =
+    'w-8 h-8 flex items-center justify-center rounded bg-white/5 text-white/60 hover:bg-white/15 hover:text-white transition-colors disabled:opacity-30';
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-2">
+        {rounds.map((round, i) => (
+          <li key={i} className="flex flex-wrap items-center gap-2 p-3 rounded-lg bg-[#0F2A3D]">
+            <span className="w-6 text-white/40 font-mono text-sm">{i + 1}</span>
+            <select
+              value={round.game_type}
+              onChange={(e) => updateRound(i, { game_type: e.target.value as MiniGameType })}
+              aria-label={`Round ${i + 1} game`}
+              className="flex-1 min-w-40 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-ice"
+            >
+              {allowedGames.map((type) => (
+                <option key={type} value={type} className="bg-[#0F2A3D]">
+                  {GAME_INFO[type].emoji} {GAME_INFO[type].name}
+                </option>
+              ))}
+            </select>
+
+            {round.game_type === 'marathon' ? (
+              <span className="text-white/40 text-sm px-2">60s clock</span>
+            ) : (
+              <>
+                <label className="flex items-center gap-1 text-white/60 text-sm">
+                  <QuestionCountInput
+                    value={round.question_count}
+                    onChange={(question_count) => updateRound(i, { question_count })}
+                  />
+                  Qs
+                </label>
+                <select
+                  value={round.time_limit}
+                  onChange={(e) => updateRound(i, { time_limit: parseInt(e.target.value) })}
+                  aria-label={`Round ${i + 1} time per question`}
+                  className="px-2 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-ice"
+                >
+                  {TIME_LIMIT_OPTIONS.map((seconds) => (
+                    <option key={seconds} value={seconds} className="bg-[#0F2A3D]">
+                      {seconds}s
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+
+            <div className="flex gap-1">
+              <button type="button" onClick={() => moveRound(i, -1)} disabled={i === 0} className={iconButton} aria-label={`Move round ${i + 1} up`}>
+                ↑
+              </button>
+              <button type="button" onClick={() => moveRound(i, 1)} disabled={i === rounds.length - 1} className={iconButton} aria-label={`Move round ${i + 1} down`}>
+                ↓
+              </button>
+              <button type="button" onClick={() => duplicateRound(i)} disabled={rounds.length >= MAX_ROUNDS} className={iconButton} aria-label={`Repeat round ${i + 1}`}>
+                ⧉
+              </button>
+              <button type="button" onClick={() => removeRound(i)} disabled={rounds.length <= 1} className={iconButton} aria-label={`Remove round ${i + 1}`}>
+                ✕
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div>
+        <p className="text-white/50 text-sm mb-2">
+          Add a round {rounds.length >= MAX_ROUNDS && `(max ${MAX_ROUNDS})`}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {allowedGames.map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => addRound(type)}
+              disabled={rounds.length >= MAX_ROUNDS}
+              className="px-3 py-1.5 rounded-lg bg-white/5 text-white/70 text-sm hover:bg-white/15 hover:text-white transition-colors disabled:opacity-30"
+            >
+              {GAME_INFO[type].emoji} {GAME_INFO[type].name}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * Host Controls Component
+ *
+ * Game-flow control bar (pause/resume, next, skip, +10s) with keyboard
+ * shortcuts so the teacher can drive the game without hunting for buttons.
+ */
+
+import { useEffect } from 'react';
+
+interface HostControlsProps {
+  paused: boolean;
+  questionActive: boolean;
+  onPauseToggle: () => void;
+  onNext: () => void;
+  onSkip: () => void;
+  onAddTime: (seconds: number) => void;
+}
+
+// Seconds added by the "+10s" control
+const ADD_TIME_SECONDS = 10;
+
+export function HostControls({
+  paused,
+  questionActive,
+  onPauseToggle,
+  onNext,
+  onSkip,
+  onAddTime,
+}: HostControlsProps) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Don't hijack typing in form fields, type-ahead in selects, or Space on a focused button
+      if (e.target instanceof Element && e.target.closest('input, textarea, select, button, [contenteditable]')) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      // Holding a key down would otherwise send a burst of commands
+      if (e.repeat) return;
+
+      switch (e.key.toLowerCase()) {
+        case ' ':
+        case 'p':
+          e.preventDefault();
+          onPauseToggle();
+          break;
+        case 'n':
+        case 'arrowright':
+          onNext();
+          break;
+        case 's':
+          if (questionActive) onSkip();
+          break;
+        case 't':
+          if (questionActive) onAddTime(ADD_TIME_SECONDS);
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [questionActive, onPauseToggle, onNext, onSkip, onAddTime]);
+
+  const buttonClass =
+    'flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-40';
+  const kbdClass = 'px-1.5 py-0.5 rounded bg-black/30 text-white/60 text-xs font-mono';
+
+  return (
+    <div className="glass rounded-xl p-4 flex flex-wrap items-center justify-center gap-3" role="toolbar" aria-label="Game controls">
+      <button onClick={onPauseToggle} className={buttonClass} aria-keyshortcuts="Space P">
+        {paused ? 'Resume' : 'Pause'} <kbd className={kbdClass}>Space</kbd>
+      </button>
+      <button onClick={onNext} className={buttonClass} aria-keyshortcuts="N ArrowRight">
+        Next <kbd className={kbdClass}>N</kbd>
+      </button>
+      <button onClick={onSkip} disabled={!questionActive} className={buttonClass} aria-keyshortcuts="S">
+        Skip question <kbd className={kbdClass}>S</kbd>
+      </button>
+      <button onClick={() => onAddTime(ADD_TIME_SECONDS)} disabled={!questionActive} className={buttonClass} aria-keyshortcuts="T">
+        +{ADD_TIME_SECONDS}s <kbd className={kbdClass}>T</kbd>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * Host Question Panel Component
+ *
+ * Projector view of the live question: question number, countdown,
+ * answers-received ring, and the answer reveal once time is up or
+ * everyone has answered.
+ */
+
+import { useState, useEffect } from 'react';
+import type { WSHostQuestion } from '@quiz-party/shared';
+
+interface HostQuestionPanelProps {
+  question: WSHostQuestion;
+  /** Epoch ms when the question's time runs out */
+  endsAt: number;
+  answersReceived: number;
+  totalPlayers: number;
+  paused?: boolean;
+}
+
+const RING_RADIUS = 42;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+function AnswersRing({ received, total }: { received: number; total: number }) {
+  const progress = total > 0 ? Math.min(1, received / total) : 0;
+
+  return (
+    <div className="relative w-28 h-28" aria-label={`${received} of ${total} answered`}>
+      <svg viewBox="0 0 100 100" className="w-full h-full -rotate-90">
+        <circle cx="50" cy="50" r={RING_RADIUS} fill="none" stroke="#0F2A3D" strokeWidth="10" />
+        <circle
+          cx="50"
+          cy="50"
+          r={RING_RADIUS}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="10"
+          strokeLinecap="round"
+          strokeDasharray={RING_CIRCUMFERENCE}
+          strokeDashoffset={RING_CIRCUMFERENCE * (1 - progress)}
+          className="text-ice transition-all duration-300"
+        />
+      </svg>
+      <div className="absolute inset-0 flex flex-col items-center justify-center">
+        <span className="text-2xl font-bold text-white">{received}</span>
+        <span className="text-xs text-white/50">of {total}</span>
+      </div>
+    </div>
+  );
+}
+
+export function HostQuestionPanel({
+  question,
+  endsAt,
+  answersReceived,
+  totalPlayers,
+  paused = false,
+}: HostQuestionPanelProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  const secondsLeft = Math.max(0, Math.ceil((endsAt - now) / 1000));
+  const allAnswered = totalPlayers > 0 && answersReceived >= totalPlayers;
+  const revealed = secondsLeft === 0 || allAnswered;
+
+  useEffect(() => {
+    // Freeze the display while paused; the server re-syncs endsAt on resume
+    if (revealed || paused) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [revealed, paused, endsAt]);
+
+  return (
+    <div className="glass rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <p className="text-white/60 text-lg">
+          Question <span className="text-white font-bold">{question.question_index + 1}</span> of {question.total_questions}
+        </p>
+        <p
+          className={`font-mono text-5xl font-bold ${
+            revealed ? 'text-white/40' : secondsLeft <= 5 ? 'text-red-400' : 'text-white'
+          }`}
+          aria-live="off"
+        >
+          {secondsLeft}
+        </p>
+        <AnswersRing received={answersReceived} total={totalPlayers} />
+      </div>
+
+      <h2 className="text-4xl font-bold text-white text-center mb-8">{question.question_text}</h2>
+
+      <div className="grid grid-cols-2 gap-4">
+        {question.options.map((option, i) => {
+          const isCorrect = i === question.correct_index;
+          return (
+            <div
+              key={`${question.question_id}-${i}`}
+              className={`p-5 rounded-xl text-2xl transition-all duration-500 ${
+                !revealed
+                  ? 'bg-[#0F2A3D] text-white'
+                  : isCorrect
+                    ? 'bg-green-500/25 border-2 border-green-400 text-white font-bold scale-[1.02]'
+                    : 'bg-[#0F2A3D] text-white/30'
+              }`}
+            >
+              {revealed && isCorrect && <span aria-label="Correct answer">✓ </span>}
+              {option}
+            </div>
+          );
+        })}
+      </div>
+
+      {paused && !revealed && (
+        <p className="text-center text-amber-300 font-bold text-xl mt-6" role="status">
+          Paused
+        </p>
+      )}
+
+      {revealed && (
+        <p className="text-center text-white/60 mt-6" role="status">
+          {allAnswered ? 'Everyone answered!' : "Time's up!"}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * Knockout Board Component
+ *
+ * Splits players into survivors and eliminated groups during Knockout.
+ */
+
+import type { PlayerInfo } from '@quiz-party/shared';
+
+interface KnockoutBoardProps {
+  players: PlayerInfo[];
+  survivorIds: string[];
+  eliminatedIds: string[];
+}
+
+export function KnockoutBoard({ players, survivorIds, eliminatedIds }: KnockoutBoardProps) {
+  const byId = new Map(players.map((p) => [p.player_id, p]));
+  const survivors = survivorIds.map((id) => byId.get(id)).filter((p): p is PlayerInfo => !!p);
+  const eliminated = eliminatedIds.map((id) => byId.get(id)).filter((p): p is PlayerInfo => !!p);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="glass rounded-xl p-6">
+        <h3 className="text-lg font-bold text-green-400 mb-4">
+          Still Standing ({survivors.length})
+        </h3>
+        <div className="grid grid-cols-2 gap-2 max-h-80 overflow-y-auto">
+          {survivors.map((p) => (
+            <div key={p.player_id} className="p-3 rounded-lg bg-[#0F2A3D]">
+              <p className="font-medium text-white truncate">{p.display_name}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="glass rounded-xl p-6">
+        <h3 className="text-lg font-bold text-red-400 mb-4">
+          Knocked Out ({eliminated.length})
+        </h3>
+        <div className="grid grid-cols-2 gap-2 max-h-80 overflow-y-auto">
+          {eliminated.map((p) => (
+            <div key={p.player_id} className="p-3 rounded-lg bg-[#0F2A3D] opacity-50">
+              <p className="font-medium text-white truncate line-through">{p.display_name}</p>
+            </div>
+          ))}
+          {eliminated.length === 0 && (
+            <p className="col-span-2 text-center text-white/40 py-8">
+              Nobody is out yet
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
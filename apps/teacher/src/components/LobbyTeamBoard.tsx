@@ -0,0 +1,114 @@
+/**
+ * Lobby Team Board Component
+ *
+ * Players grouped into team columns before the game starts. Players can be
+ * dragged between columns, or the whole lobby auto-balanced or shuffled.
+ */
+
+import { useState } from 'react';
+import type { PlayerInfo } from '@quiz-party/shared';
+
+interface LobbyTeamBoardProps {
+  players: PlayerInfo[];
+  /** Display name per team_id, in column order */
+  teamNames: Record<string, string>;
+  onMove: (playerId: string, teamId: string) => void;
+  onAutoBalance: () => void;
+  onShuffle: () => void;
+}
+
+// dataTransfer key for the dragged player's id
+const DRAG_TYPE = 'application/x-quizparty-player';
+
+export function LobbyTeamBoard({ players, teamNames, onMove, onAutoBalance, onShuffle }: LobbyTeamBoardProps) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const teamIds = Object.keys(teamNames);
+  const unassigned = players.filter((p) => !p.team_id || !teamNames[p.team_id]);
+
+  const handleDrop = (e: React.DragEvent, teamId: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const playerId = e.dataTransfer.getData(DRAG_TYPE);
+    const player = players.find((p) => p.player_id === playerId);
+    if (player && player.team_id !== teamId) onMove(playerId, teamId);
+  };
+
+  const renderPlayer = (p: PlayerInfo) => (
+    <li
+      key={p.player_id}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_TYPE, p.player_id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      className={`px-3 py-2 rounded-lg bg-[#0A1E2E] text-white cursor-grab active:cursor-grabbing truncate ${
+        p.connected ? '' : 'opacity-50'
+      }`}
+    >
+      {p.display_name}
+    </li>
+  );
+
+  return (
+    <div className="glass rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-white">Teams</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={onAutoBalance}
+            disabled={players.length === 0}
+            className="px-3 py-1.5 bg-white/10 text-white text-sm rounded-lg hover:bg-white/20 transition-colors disabled:opacity-40"
+          >
+            Auto-balance
+          </button>
+          <button
+            onClick={onShuffle}
+            disabled={players.length === 0}
+            className="px-3 py-1.5 bg-white/10 text-white text-sm rounded-lg hover:bg-white/20 transition-colors disabled:opacity-40"
+          >
+            Shuffle teams
+          </button>
+        </div>
+      </div>
+
+      {teamIds.length === 0 ? (
+        <p className="text-center text-white/40 py-8">Teams will appear as players join</p>
+      ) : (
+        <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${Math.min(teamIds.length, 4)}, minmax(0, 1fr))` }}>
+          {teamIds.map((teamId) => {
+            const members = players.filter((p) => p.team_id === teamId);
+            return (
+              <div
+                key={teamId}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  e.dataTransfer.dropEffect = 'move';
+                  setDropTarget(teamId);
+                }}
+                onDragLeave={() => setDropTarget((current) => (current === teamId ? null : current))}
+                onDrop={(e) => handleDrop(e, teamId)}
+                className={`p-3 rounded-lg bg-[#0F2A3D] border-2 transition-colors ${
+                  dropTarget === teamId ? 'border-[var(--ice)]' : 'border-transparent'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <p className="font-bold text-ice truncate">{teamNames[teamId]}</p>
+                  <span className="text-white/40 text-sm">{members.length}</span>
+                </div>
+                <ul className="space-y-1.5 min-h-12">{members.map(renderPlayer)}</ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {unassigned.length > 0 && (
+        <div className="mt-4">
+          <p className="text-white/50 text-sm mb-2">Not on a team yet — drag onto a team</p>
+          <ul className="flex flex-wrap gap-2">{unassigned.map(renderPlayer)}</ul>
+        </div>
+      )}
+    </div>
+  );
+}
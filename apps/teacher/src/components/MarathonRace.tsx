@@ -0,0 +1,47 @@
+/**
+ * Marathon Race Component
+ *
+ * Live "questions answered per team" race bars for Marathon.
+ */
+
+import type { MarathonTeamProgress } from '@quiz-party/shared';
+
+interface MarathonRaceProps {
+  secondsRemaining: number;
+  teams: MarathonTeamProgress[];
+}
+
+export function MarathonRace({ secondsRemaining, teams }: MarathonRaceProps) {
+  const leader = Math.max(1, ...teams.map((t) => t.questions_answered));
+
+  return (
+    <div className="glass rounded-xl p-6">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-lg font-bold text-white">Marathon Race</h3>
+        <p className={`font-mono text-2xl font-bold ${secondsRemaining <= 10 ? 'text-red-400' : 'text-ice'}`}>
+          {secondsRemaining}s
+        </p>
+      </div>
+      <div className="space-y-3">
+        {teams.map((t) => (
+          <div key={t.team_id}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="text-white font-medium">{t.name}</span>
+              <span className="text-white/60">
+                <span className="font-mono text-white">{t.questions_answered}</span> answered
+                {' · '}
+                {t.questions_correct} correct
+              </span>
+            </div>
+            <div className="h-4 rounded-full bg-[#0F2A3D] overflow-hidden">
+              <div
+                className="h-full bg-green-400 transition-all duration-300"
+                style={{ width: `${(t.questions_answered / leader) * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
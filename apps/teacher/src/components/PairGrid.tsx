@@ -0,0 +1,51 @@
+/**
+ * Pair Grid Component
+ *
+ * Team Up pairs with each partner's live lock-in status.
+ */
+
+import type { TeamUpPair } from '@quiz-party/shared';
+
+interface PairGridProps {
+  pairs: TeamUpPair[];
+}
+
+export function PairGrid({ pairs }: PairGridProps) {
+  const lockedPairs = pairs.filter((pair) => pair.members.every((m) => m.locked_in)).length;
+
+  return (
+    <div className="glass rounded-xl p-6">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-lg font-bold text-white">Pairs</h3>
+        <p className="text-white/60 text-sm">
+          {lockedPairs}/{pairs.length} pairs locked in
+        </p>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
+        {pairs.map((pair) => {
+          const complete = pair.members.every((m) => m.locked_in);
+          return (
+            <div
+              key={pair.pair_id}
+              className={`p-3 rounded-lg bg-[#0F2A3D] border ${
+                complete ? 'border-green-400/60' : 'border-transparent'
+              }`}
+            >
+              {pair.members.map((m) => (
+                <div key={m.player_id} className="flex items-center justify-between gap-2">
+                  <span className="text-white text-sm truncate">{m.display_name}</span>
+                  <span
+                    className={`w-2.5 h-2.5 rounded-full shrink-0 ${
+                      m.locked_in ? 'bg-green-400' : 'bg-white/20'
+                    }`}
+                    aria-label={m.locked_in ? 'Locked in' : 'Not answered'}
+                  />
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+/**
+ * Player Card Component
+ *
+ * One player in the host's roster, with moderation actions: force-rename,
+ * move to another team, kick, and accommodations (extended time, reduced
+ * options, read-aloud).
+ */
+
+import { useState } from 'react';
+import {
+  DEFAULT_ACCOMMODATIONS,
+  TIME_MULTIPLIER_OPTIONS,
+  hasAccommodations,
+  type PlayerAccommodations,
+  type PlayerInfo,
+} from '@quiz-party/shared';
+
+interface PlayerCardProps {
+  player: PlayerInfo;
+  /** Display name per team_id; the move picker is hidden when empty */
+  teamNames: Record<string, string>;
+  onRename: (playerId: string, displayName: string) => void;
+  onMove: (playerId: string, teamId: string) => void;
+  onKick: (playerId: string) => void;
+  onSetAccommodations: (playerId: string, accommodations: PlayerAccommodations) => void;
+}
+
+// Same limits the student join form enforces
+const MIN_NAME_LENGTH = 2;
+const MAX_NAME_LENGTH = 20;
+
+export function PlayerCard({ player, teamNames, onRename, onMove, onKick, onSetAccommodations }: PlayerCardProps) {
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [renaming, setRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(player.display_name);
+  const accommodations = player.accommodations ?? DEFAULT_ACCOMMODATIONS;
+
+  const updateAccommodations = (changes: Partial<PlayerAccommodations>) => {
+    onSetAccommodations(player.player_id, { ...accommodations, ...changes });
+  };
+
+  const trimmedName = draftName.trim();
+  const nameValid = trimmedName.length >= MIN_NAME_LENGTH && trimmedName.length <= MAX_NAME_LENGTH;
+  const teamEntries = Object.entries(teamNames);
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!nameValid) return;
+    if (trimmedName !== player.display_name) onRename(player.player_id, trimmedName);
+    setRenaming(false);
+    setMenuOpen(false);
+  };
+
+  const handleKick = () => {
+    if (!confirm(`Remove ${player.display_name} from the game?`)) return;
+    onKick(player.player_id);
+    setMenuOpen(false);
+  };
+
+  return (
+    <div className={`p-3 rounded-lg bg-[#0F2A3D] ${player.connected ? '' : 'opacity-50'}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium text-white truncate">{player.display_name}</p>
+          <p className="text-sm text-white/50">
+            {player.score} pts
+            {player.team_id && teamNames[player.team_id] && ` · ${teamNames[player.team_id]}`}
+          </p>
+          {hasAccommodations(accommodations) && (
+            <p className="flex gap-1 mt-1 text-xs text-amber-300" aria-label="Accommodations">
+              {accommodations.time_multiplier > 1 && <span title="Extended time">⏱ {accommodations.time_multiplier}×</span>}
+              {accommodations.reduced_options && <span title="Reduced options">✂️</span>}
+              {accommodations.read_aloud && <span title="Read aloud">🔊</span>}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={() => {
+            setMenuOpen((open) => !open);
+            setRenaming(false);
+          }}
+          className="px-2 text-white/50 hover:text-white transition-colors"
+          aria-label={`Moderate ${player.display_name}`}
+          aria-expanded={menuOpen}
+        >
+          ⋯
+        </button>
+      </div>
+
+      {menuOpen && (
+        <div className="mt-3 space-y-2">
+          {renaming ? (
+            <form onSubmit={handleRenameSubmit} className="flex gap-2">
+              <input
+                type="text"
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                maxLength={MAX_NAME_LENGTH}
+                autoFocus
+                aria-label="New name"
+                className="min-w-0 flex-1 px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-sm focus:outline-none focus:border-[var(--ice)]"
+              />
+              <button
+                type="submit"
+                disabled={!nameValid}
+                className="px-2 py-1 bg-white/10 text-white text-sm rounded hover:bg-white/20 disabled:opacity-40"
+              >
+                Save
+              </button>
+            </form>
+          ) : (
+            <button
+              onClick={() => {
+                setDraftName(player.display_name);
+                setRenaming(true);
+              }}
+              className="w-full px-2 py-1 bg-white/10 text-white text-sm rounded hover:bg-white/20 transition-colors"
+            >
+              Rename
+            </button>
+          )}
+
+          {teamEntries.length > 0 && (
+            <select
+              value={player.team_id ?? ''}
+              onChange={(e) => {
+                if (e.target.value) onMove(player.player_id, e.target.value);
+              }}
+              aria-label="Move to team"
+              className="w-full px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-sm"
+            >
+              {!player.team_id && <option value="">No team</option>}
+              {teamEntries.map(([teamId, name]) => (
+                <option key={teamId} value={teamId} className="bg-[#0F2A3D]">
+                  {name}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <fieldset className="p-2 rounded border border-white/10 space-y-1.5">
+            <legend className="px-1 text-xs text-white/50">Accommodations</legend>
+            <label className="flex items-center justify-between gap-2 text-sm text-white/80">
+              Time
+              <select
+                value={accommodations.time_multiplier}
+                onChange={(e) => updateAccommodations({ time_multiplier: parseFloat(e.target.value) })}
+                className="px-1 py-0.5 bg-white/5 border border-white/10 rounded text-white text-sm"
+              >
+                {TIME_MULTIPLIER_OPTIONS.map((multiplier) => (
+                  <option key={multiplier} value={multiplier} className="bg-[#0F2A3D]">
+                    {multiplier === 1 ? 'Standard' : `${multiplier}×`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-white/80">
+              <input
+                type="checkbox"
+                checked={accommodations.reduced_options}
+                onChange={(e) => updateAccommodations({ reduced_options: e.target.checked })}
+              />
+              Hide one distractor
+            </label>
+            <label className="flex items-center gap-2 text-sm text-white/80">
+              <input
+                type="checkbox"
+                checked={accommodations.read_aloud}
+                onChange={(e) => updateAccommodations({ read_aloud: e.target.checked })}
+              />
+              Read aloud
+            </label>
+          </fieldset>
+
+          <button
+            onClick={handleKick}
+            className="w-full px-2 py-1 bg-red-500/20 text-red-400 text-sm rounded hover:bg-red-500/30 transition-colors"
+          >
+            Kick
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * Question Bank Mixer Component
+ *
+ * Pick one or more question banks for a session, each contributing by
+ * weight or a fixed question count, with a preview of the combined pool
+ * and its category breakdown.
+ */
+
+import type { QuestionBank, QuestionBankMix, QuestionBankWithQuestions } from '@quiz-party/shared';
+
+interface QuestionBankMixerProps {
+  banks: QuestionBank[];
+  mix: QuestionBankMix[];
+  onChange: (mix: QuestionBankMix[]) => void;
+  /** Loaded bank contents by id, for the category breakdown */
+  details: Record<string, QuestionBankWithQuestions>;
+  /** Questions the chosen rounds will ask */
+  questionsNeeded: number;
+  /** questionsNeeded is a rough guess (presets), so a short pool is only a warning */
+  estimated?: boolean;
+}
+
+const DEFAULT_WEIGHT = 1;
+const UNCATEGORIZED = 'Uncategorized';
+
+/** Questions a bank puts into the pool: all of them, or its fixed count */
+export function bankContribution(entry: QuestionBankMix, bank: QuestionBank | undefined): number {
+  const size = bank?.question_count ?? 0;
+  return entry.question_count !== undefined ? Math.min(entry.question_count, size) : size;
+}
+
+/** Bank fields for a create request; the full mix goes along whenever it says more than the primary bank id */
+export function bankMixParams(mix: QuestionBankMix[]): { question_bank_id: string; question_banks?: QuestionBankMix[] } {
+  const needsMix = mix.length > 1 || mix.some((entry) => entry.question_count !== undefined);
+  return {
+    question_bank_id: mix[0].question_bank_id,
+    ...(needsMix && { question_banks: mix }),
+  };
+}
+
+export function QuestionBankMixer({ banks, mix, onChange, details, questionsNeeded, estimated = false }: QuestionBankMixerProps) {
+  const banksById = new Map(banks.map((b) => [b.id, b]));
+  const selected = new Map(mix.map((entry) => [entry.question_bank_id, entry]));
+  const poolSize = mix.reduce((sum, entry) => sum + bankContribution(entry, banksById.get(entry.question_bank_id)), 0);
+  const totalWeight = mix.reduce((sum, entry) => sum + (entry.question_count === undefined ? entry.weight ?? DEFAULT_WEIGHT : 0), 0);
+
+  // Category counts, scaled down for banks that only contribute part of their questions
+  const categories = new Map<string, number>();
+  let breakdownComplete = true;
+  for (const entry of mix) {
+    const bank = details[entry.question_bank_id];
+    if (!bank) {
+      breakdownComplete = false;
+      continue;
+    }
+    const share = bank.questions.length > 0 ? bankContribution(entry, bank) / bank.questions.length : 0;
+    for (const q of bank.questions) {
+      const category = q.category || UNCATEGORIZED;
+      categories.set(category, (categories.get(category) ?? 0) + share);
+    }
+  }
+  const sortedCategories = [...categories.entries()].sort((a, b) => b[1] - a[1]);
+
+  const toggleBank = (bankId: string) => {
+    onChange(
+      selected.has(bankId)
+        ? mix.filter((entry) => entry.question_bank_id !== bankId)
+        : [...mix, { question_bank_id: bankId, weight: DEFAULT_WEIGHT }]
+    );
+  };
+
+  const updateEntry = (bankId: string, entry: QuestionBankMix) => {
+    onChange(mix.map((e) => (e.question_bank_id === bankId ? entry : e)));
+  };
+
+  const inputClass =
+    'w-16 px-2 py-1 bg-white/5 border border-white/10 rounded text-white text-center focus:outline-none focus:border-ice';
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-2 max-h-72 overflow-y-auto">
+        {banks.map((bank) => {
+          const entry = selected.get(bank.id);
+          const fixed = entry?.question_count !== undefined;
+          return (
+            <li
+              key={bank.id}
+              className={`flex flex-wrap items-center gap-3 p-3 rounded-lg border ${
+                entry ? 'border-ice/50 bg-ice/5' : 'border-white/10'
+              }`}
+            >
+              <label className="flex-1 min-w-48 flex items-center gap-3 cursor-pointer">
+                <input type="checkbox" checked={!!entry} onChange={() => toggleBank(bank.id)} />
+                <span className="text-white">{bank.name}</span>
+                <span className="text-white/40 text-sm">{bank.question_count} questions</span>
+              </label>
+
+              {entry && (
+                <div className="flex items-center gap-2 text-sm">
+                  <select
+                    value={fixed ? 'count' : 'weight'}
+                    onChange={(e) =>
+                      updateEntry(
+                        bank.id,
+                        e.target.value === 'count'
+                          ? { question_bank_id: bank.id, question_count: bank.question_count }
+                          : { question_bank_id: bank.id, weight: DEFAULT_WEIGHT }
+                      )
+                    }
+                    aria-label={`How ${bank.name} contributes`}
+                    className="px-2 py-1 bg-white/5 border border-white/10 rounded text-white"
+                  >
+                    <option value="weight" className="bg-[#0F2A3D]">Weight</option>
+                    <option value="count" className="bg-[#0F2A3D]">Fixed count</option>
+                  </select>
+                  {fixed ? (
+                    <input
+                      type="number"
+                      min={1}
+                      max={bank.question_count}
+                      value={entry.question_count}
+                      onChange={(e) =>
+                        updateEntry(bank.id, {
+                          question_bank_id: bank.id,
+                          question_count: Math.min(bank.question_count, Math.max(1, parseInt(e.target.value) || 1)),
+                        })
+                      }
+                      aria-label={`Questions from ${bank.name}`}
+                      className={inputClass}
+                    />
+                  ) : (
+                    <>
+                      <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={entry.weight ?? DEFAULT_WEIGHT}
+                        onChange={(e) =>
+                          updateEntry(bank.id, {
+                            question_bank_id: bank.id,
+                            weight: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)),
+                          })
+                        }
+                        aria-label={`Weight for ${bank.name}`}
+                        className={inputClass}
+                      />
+                      {totalWeight > 0 && (
+                        <span className="text-white/40 w-10">
+                          {Math.round(((entry.weight ?? DEFAULT_WEIGHT) / totalWeight) * 100)}%
+                        </span>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {mix.length > 0 && (
+        <div className="p-4 rounded-lg bg-[#0F2A3D]">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-white font-medium">
+              Pool: {poolSize} questions from {mix.length} {mix.length === 1 ? 'bank' : 'banks'}
+            </p>
+            <p className={`text-sm ${
+              poolSize >= questionsNeeded ? 'text-green-400' : estimated ? 'text-amber-300' : 'text-red-400'
+            }`}>
+              {estimated && '~'}{questionsNeeded} needed
+            </p>
+          </div>
+          {sortedCategories.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {sortedCategories.map(([category, count]) => (
+                <span key={category} className="px-2 py-0.5 rounded-full bg-white/5 text-white/70 text-xs">
+                  {category} · {Math.round(count)}
+                </span>
+              ))}
+            </div>
+          )}
+          {!breakdownComplete && <p className="text-white/40 text-xs mt-2">Loading categories...</p>}
+          {estimated && poolSize < questionsNeeded && (
+            <p className="text-amber-300/80 text-xs mt-2">
+              Preset rounds may ask more questions than this pool holds.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+/**
+ * Random Event Card Component
+ *
+ * Full-screen chaos event announcement for the projector.
+ */
+
+import { RandomEventDetails, getRandomEventEmoji, type WSRandomEvent } from '@quiz-party/shared';
+
+interface RandomEventCardProps {
+  event: WSRandomEvent;
+  onDismiss: () => void;
+}
+
+export function RandomEventCard({ event, onDismiss }: RandomEventCardProps) {
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/70 p-6"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="random-event-title"
+      onClick={onDismiss}
+    >
+      <div className="animate-banner-in glass rounded-2xl p-12 w-full max-w-3xl text-center border-2 border-amber-400">
+        <p className="text-amber-300 uppercase tracking-widest text-sm mb-4">Random Event</p>
+        <p className="text-8xl mb-4" aria-hidden="true">{getRandomEventEmoji(event.event_key)}</p>
+        <h2
+          id="random-event-title"
+          className="text-5xl font-bold text-white mb-3"
+          style={{ fontFamily: 'var(--font-display)' }}
+        >
+          {event.title}
+        </h2>
+        <p className="text-white/70 text-xl mb-8">{event.description}</p>
+        <RandomEventDetails event={event} className="text-xl" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+/**
+ * Review Panel Component
+ *
+ * Teacher-driven walkthrough of the most-missed questions, showing the
+ * correct option and the explanation for reteaching.
+ */
+
+import type { WSReviewQuestion, WSAnswerDistribution } from '@quiz-party/shared';
+import { AnswerDistributionChart } from './AnswerDistributionChart';
+
+interface ReviewPanelProps {
+  review: WSReviewQuestion;
+  /** How the class answered this question live, if it was recorded */
+  distribution?: WSAnswerDistribution | null;
+  /** Navigation is hidden when omitted, e.g. on the projector view */
+  onStep?: (reviewIndex: number) => void;
+  onEnd?: () => void;
+}
+
+export function ReviewPanel({ review, distribution, onStep, onEnd }: ReviewPanelProps) {
+  const { question, review_index, total_reviews, miss_count, total_answers } = review;
+  const missRate = total_answers > 0 ? Math.round((miss_count / total_answers) * 100) : 0;
+  const isFirst = review_index === 0;
+  const isLast = review_index >= total_reviews - 1;
+
+  return (
+    <div className="glass rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <p className="text-white/50 text-sm">
+            Review {review_index + 1} of {total_reviews}
+          </p>
+          {question.category && <p className="text-ice text-sm">{question.category}</p>}
+        </div>
+        <p className="text-red-400 font-bold">
+          {miss_count}/{total_answers} missed ({missRate}%)
+        </p>
+      </div>
+
+      <h2 className="text-3xl font-bold text-white mb-6">{question.question_text}</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+        {question.options.map((option, i) => (
+          <div
+            key={i}
+            className={`p-4 rounded-lg text-lg ${
+              i === question.correct_index
+                ? 'bg-green-500/20 border-2 border-green-400 text-white font-bold'
+                : 'bg-[#0F2A3D] text-white/60'
+            }`}
+          >
+            {i === question.correct_index && <span aria-label="Correct answer">✓ </span>}
+            {option}
+          </div>
+        ))}
+      </div>
+
+      {distribution && (
+        <div className="mb-6">
+          <AnswerDistributionChart
+            counts={distribution.counts}
+            correctIndex={distribution.correct_index}
+            totalAnswers={distribution.total_answers}
+            options={question.options}
+          />
+        </div>
+      )}
+
+      {question.explanation && (
+        <div className="p-4 rounded-lg bg-white/5 border border-white/10 mb-6">
+          <p className="text-white/50 text-sm mb-1">Why</p>
+          <p className="text-white text-lg">{question.explanation}</p>
+        </div>
+      )}
+
+      {onStep && onEnd && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => onStep(review_index - 1)}
+            disabled={isFirst}
+            className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors disabled:opacity-40"
+          >
+            ← Previous
+          </button>
+          <button
+            onClick={onEnd}
+            className="px-4 py-2 text-white/60 hover:text-white transition-colors"
+          >
+            Finish review
+          </button>
+          <button
+            onClick={() => onStep(review_index + 1)}
+            disabled={isLast}
+            className="btn-amber px-4 py-2 disabled:opacity-40"
+          >
+            Next →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
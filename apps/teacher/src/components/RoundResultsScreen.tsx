@@ -0,0 +1,116 @@
+/**
+ * Round Results Screen Component
+ *
+ * Between-rounds projector screen: team standings with rank movement
+ * since the last round, an individual top-5 podium, and the toughest
+ * question of the round.
+ */
+
+import type { TeamScore, LeaderboardEntry, WSHostQuestion } from '@quiz-party/shared';
+
+interface RoundResultsScreenProps {
+  roundNumber: number;
+  teams: TeamScore[];
+  /** Places gained (+) or lost (-) per team_id since the previous round */
+  rankChanges: Record<string, number>;
+  topPlayers: LeaderboardEntry[];
+  toughestQuestion: WSHostQuestion | null;
+}
+
+// Podium order: 2nd, 1st, 3rd
+const PODIUM_ORDER = [1, 0, 2];
+const PODIUM_HEIGHTS = ['h-32', 'h-24', 'h-16'];
+const PODIUM_MEDALS = ['🥇', '🥈', '🥉'];
+
+function RankChange({ change }: { change: number }) {
+  if (change > 0) return <span className="text-green-400 text-sm font-bold">▲ {change}</span>;
+  if (change < 0) return <span className="text-red-400 text-sm font-bold">▼ {-change}</span>;
+  return <span className="text-white/30 text-sm">–</span>;
+}
+
+export function RoundResultsScreen({
+  roundNumber,
+  teams,
+  rankChanges,
+  topPlayers,
+  toughestQuestion,
+}: RoundResultsScreenProps) {
+  const sortedTeams = [...teams].sort((a, b) => a.rank - b.rank);
+  const sortedPlayers = [...topPlayers].sort((a, b) => a.rank - b.rank);
+  // Podium spots follow sorted position, so tied players still fill 1st, 2nd and 3rd
+  const podium = PODIUM_ORDER
+    .map((place) => ({ place, player: sortedPlayers[place] }))
+    .filter((spot): spot is { place: number; player: LeaderboardEntry } => !!spot.player);
+  const runnersUp = sortedPlayers.slice(3, 5);
+  const isTied = (p: LeaderboardEntry) => sortedPlayers.some((o) => o !== p && o.rank === p.rank);
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-3xl font-bold text-white text-center" style={{ fontFamily: 'var(--font-display)' }}>
+        Round {roundNumber} Results
+      </h2>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Team standings */}
+        <div className="glass rounded-xl p-6">
+          <h3 className="text-lg font-bold text-white mb-4">Team Standings</h3>
+          <div className="space-y-2">
+            {sortedTeams.map((t, i) => (
+              <div
+                key={t.team_id}
+                className="animate-banner-in flex items-center justify-between p-3 rounded-lg bg-[#0F2A3D]"
+                style={{ animationDelay: `${i * 150}ms` }}
+              >
+                <div className="flex items-center gap-3">
+                  <span className="text-2xl font-bold text-ice">#{t.rank}</span>
+                  <span className="text-white font-medium">{t.name}</span>
+                  <RankChange change={rankChanges[t.team_id] ?? 0} />
+                </div>
+                <span className="text-white font-mono">{t.total_score}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Individual podium */}
+        <div className="glass rounded-xl p-6">
+          <h3 className="text-lg font-bold text-white mb-4">Top Players</h3>
+          <div className="flex items-end justify-center gap-3 mb-4">
+            {podium.map(({ place, player: p }) => (
+              <div key={p.player_id} className="flex flex-col items-center w-28">
+                <span className="text-3xl" aria-hidden="true">{PODIUM_MEDALS[place]}</span>
+                <p className="text-white font-bold truncate max-w-full">{p.display_name}</p>
+                <p className="text-white/50 text-sm font-mono">{p.score}</p>
+                {isTied(p) && <p className="text-ice text-xs">Tied #{p.rank}</p>}
+                <div className={`w-full mt-2 rounded-t-lg bg-ice/20 border-t-2 border-ice ${PODIUM_HEIGHTS[place]}`} />
+              </div>
+            ))}
+          </div>
+          {runnersUp.map((p) => (
+            <div key={p.player_id} className="flex items-center justify-between px-3 py-2 text-white/70">
+              <span>#{p.rank} {p.display_name}</span>
+              <span className="font-mono">{p.score}</span>
+            </div>
+          ))}
+          {topPlayers.length === 0 && (
+            <p className="text-center text-white/40 py-8">No scores yet</p>
+          )}
+        </div>
+      </div>
+
+      {/* Toughest question */}
+      {toughestQuestion && (
+        <div className="glass rounded-xl p-6 border border-red-400/40">
+          <p className="text-red-400 uppercase tracking-widest text-sm mb-2">Toughest Question</p>
+          <p className="text-2xl text-white font-bold mb-3">{toughestQuestion.question_text}</p>
+          <p className="text-white/60">
+            Answer:{' '}
+            <span className="text-green-400 font-bold">
+              {toughestQuestion.options[toughestQuestion.correct_index]}
+            </span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
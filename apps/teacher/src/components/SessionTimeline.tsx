@@ -0,0 +1,119 @@
+/**
+ * Session Timeline Component
+ *
+ * Strip of round badges for the whole session: done rounds show the team
+ * that won them, the current round is highlighted, and an estimate of the
+ * time left sits at the end.
+ */
+
+import { GAME_INFO, type MiniGameType, type RoundConfig } from '@quiz-party/shared';
+
+interface SessionTimelineProps {
+  gameSequence: string[];
+  /** Per-round settings of a custom sequence; preset sessions estimate every round alike */
+  rounds?: RoundConfig[];
+  /** 1-based round in progress; 0 before the first game intro */
+  currentRound: number;
+  /** Winning team name per completed round number */
+  roundWinners: Record<number, string>;
+  /** From the latest game intro; 0 before the first one */
+  questionsPerRound: number;
+  /** 0-based index of the live question in the current round, or null between questions */
+  questionIndex: number | null;
+  /** Seconds per question, from the live question when there is one */
+  secondsPerQuestion: number;
+  ended: boolean;
+}
+
+// Reveal, leaderboard and transition time per question, in seconds
+const QUESTION_OVERHEAD_SECONDS = 8;
+// Game intro plus round results screen, in seconds
+const ROUND_OVERHEAD_SECONDS = 30;
+// Marathon runs on a single clock regardless of question count
+const MARATHON_SECONDS = 60;
+// Assumed round length before the first game intro says otherwise
+const DEFAULT_QUESTIONS_PER_ROUND = 5;
+
+function estimateRoundSeconds(gameType: string, questions: number, secondsPerQuestion: number): number {
+  if (gameType === 'marathon') return MARATHON_SECONDS + ROUND_OVERHEAD_SECONDS;
+  return questions * (secondsPerQuestion + QUESTION_OVERHEAD_SECONDS) + ROUND_OVERHEAD_SECONDS;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return minutes < 1 ? 'under a minute' : `~${minutes} min`;
+}
+
+export function SessionTimeline({
+  gameSequence,
+  rounds,
+  currentRound,
+  roundWinners,
+  questionsPerRound,
+  questionIndex,
+  secondsPerQuestion,
+  ended,
+}: SessionTimelineProps) {
+  if (gameSequence.length === 0) return null;
+
+  const perRound = questionsPerRound || DEFAULT_QUESTIONS_PER_ROUND;
+
+  // Custom rounds carry their own length; preset rounds assume the latest intro's count and question time
+  const remainingSeconds = ended
+    ? 0
+    : gameSequence.reduce((total, gameType, i) => {
+        const round = i + 1;
+        if (round < currentRound || roundWinners[round]) return total;
+        const questions = rounds?.[i]?.question_count ?? perRound;
+        const seconds = rounds?.[i]?.time_limit ?? secondsPerQuestion;
+        // Current round: only the questions not yet started
+        if (round === currentRound) {
+          if (gameType === 'marathon') return total + MARATHON_SECONDS;
+          const questionsStarted = questionIndex === null ? 0 : questionIndex + 1;
+          const questionsLeft = Math.max(0, questions - questionsStarted);
+          return total + questionsLeft * (seconds + QUESTION_OVERHEAD_SECONDS);
+        }
+        return total + estimateRoundSeconds(gameType, questions, seconds);
+      }, 0);
+
+  return (
+    <div className="glass rounded-xl p-4 flex items-center gap-3">
+      <ol className="flex-1 flex items-center gap-2 overflow-x-auto" aria-label="Session progress">
+        {gameSequence.map((gameType, i) => {
+          const round = i + 1;
+          const info = GAME_INFO[gameType as MiniGameType];
+          const winner = roundWinners[round];
+          // A round is done once its results are in, even before the next intro
+          const done = ended || round < currentRound || (round === currentRound && !!winner);
+          const current = !done && round === currentRound;
+
+          return (
+            <li key={round} className="flex items-center gap-2 shrink-0">
+              {i > 0 && <span className={`w-4 h-0.5 ${done || current ? 'bg-ice' : 'bg-white/20'}`} aria-hidden="true" />}
+              <div
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg ${
+                  current
+                    ? 'bg-[var(--ice)] text-[var(--deep-sea)] font-bold ring-2 ring-[var(--ice)]/50'
+                    : done
+                      ? 'bg-[#0F2A3D] text-white/70'
+                      : 'bg-white/5 text-white/40'
+                }`}
+                aria-current={current ? 'step' : undefined}
+                title={info ? `Round ${round}: ${info.name}` : `Round ${round}`}
+              >
+                <span aria-hidden="true">{info?.emoji ?? '❓'}</span>
+                <span className="text-sm whitespace-nowrap">{info?.name ?? gameType}</span>
+                {done && winner && (
+                  <span className="text-xs text-amber-300 whitespace-nowrap">🏆 {winner}</span>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+      <p className="text-white/50 text-sm whitespace-nowrap">
+        {ended ? 'Session complete' : `${formatDuration(remainingSeconds)} left`}
+      </p>
+    </div>
+  );
+}
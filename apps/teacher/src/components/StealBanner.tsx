@@ -0,0 +1,30 @@
+/**
+ * Steal Banner Component
+ *
+ * Animated "Team X stole from Team Y" announcement for the projector.
+ */
+
+interface StealBannerProps {
+  thiefName: string;
+  thiefTeamName: string;
+  victimTeamName: string;
+  points: number;
+}
+
+export function StealBanner({ thiefName, thiefTeamName, victimTeamName, points }: StealBannerProps) {
+  return (
+    <div
+      className="animate-banner-in rounded-xl p-6 text-center bg-orange-500/20 border-2 border-orange-400"
+      role="status"
+      aria-live="polite"
+    >
+      <p className="text-5xl mb-2" aria-hidden="true">🏴‍☠️</p>
+      <h2 className="text-3xl font-bold text-white" style={{ fontFamily: 'var(--font-display)' }}>
+        {thiefTeamName} stole from {victimTeamName}!
+      </h2>
+      <p className="text-orange-300 mt-1">
+        {thiefName} grabbed <span className="font-bold">{points}</span> points
+      </p>
+    </div>
+  );
+}
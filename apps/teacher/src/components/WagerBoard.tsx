@@ -0,0 +1,48 @@
+/**
+ * Wager Board Component
+ *
+ * Shows how much each team has put on the line during a High Stakes question.
+ */
+
+import type { TeamWager } from '@quiz-party/shared';
+
+interface WagerBoardProps {
+  category: string | null;
+  teams: TeamWager[];
+}
+
+export function WagerBoard({ category, teams }: WagerBoardProps) {
+  const sortedTeams = [...teams].sort((a, b) => b.total_wagered - a.total_wagered);
+  const maxWagered = Math.max(1, ...teams.map((t) => t.total_wagered));
+
+  return (
+    <div className="glass rounded-xl p-6">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-lg font-bold text-white">Wagers</h3>
+        <p className="text-white/60 text-sm">
+          Category: <span className="text-ice font-medium">{category || 'Mystery'}</span>
+        </p>
+      </div>
+      <div className="space-y-3">
+        {sortedTeams.map((t) => (
+          <div key={t.team_id}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="text-white font-medium">{t.name}</span>
+              <span className="text-white/60">
+                <span className="font-mono text-white">{t.total_wagered}</span> pts
+                {' · '}
+                {t.wagers_received}/{t.member_count} in
+              </span>
+            </div>
+            <div className="h-3 rounded-full bg-[#0F2A3D] overflow-hidden">
+              <div
+                className="h-full bg-amber-400 transition-all duration-500"
+                style={{ width: `${(t.total_wagered / maxWagered) * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1 +1,18 @@
 export { QRCodeDisplay } from './QRCodeDisplay';
+export { WagerBoard } from './WagerBoard';
+export { KnockoutBoard } from './KnockoutBoard';
+export { PairGrid } from './PairGrid';
+export { MarathonRace } from './MarathonRace';
+export { StealBanner } from './StealBanner';
+export { RandomEventCard } from './RandomEventCard';
+export { AwardsCeremony } from './AwardsCeremony';
+export { ReviewPanel } from './ReviewPanel';
+export { HostQuestionPanel } from './HostQuestionPanel';
+export { HostControls } from './HostControls';
+export { RoundResultsScreen } from './RoundResultsScreen';
+export { AnswerDistributionChart } from './AnswerDistributionChart';
+export { PlayerCard } from './PlayerCard';
+export { LobbyTeamBoard } from './LobbyTeamBoard';
+export { SessionTimeline } from './SessionTimeline';
+export { GameSequenceBuilder, defaultRounds } from './GameSequenceBuilder';
+export { QuestionBankMixer, bankContribution, bankMixParams } from './QuestionBankMixer';
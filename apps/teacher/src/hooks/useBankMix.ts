@@ -0,0 +1,61 @@
+/**
+ * useBankMix Hook
+ *
+ * Question bank selection shared by the session and assignment forms: loads
+ * the teacher's banks, fetches each selected bank's contents for the category
+ * breakdown, and totals how many questions the mix can supply.
+ */
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  questionBankAPI,
+  type QuestionBank,
+  type QuestionBankMix,
+  type QuestionBankWithQuestions,
+} from '@quiz-party/shared';
+import { bankContribution } from '../components';
+
+export function useBankMix(initialMix: QuestionBankMix[] | (() => QuestionBankMix[]) = []) {
+  const [banks, setBanks] = useState<QuestionBank[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [bankMix, setBankMix] = useState<QuestionBankMix[]>(initialMix);
+  // Bank contents for the category breakdown, fetched as banks are selected
+  const [bankDetails, setBankDetails] = useState<Record<string, QuestionBankWithQuestions>>({});
+  const requestedBanksRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    questionBankAPI.list()
+      .then((list) => {
+        setBanks(list);
+        // A prefilled mix may point at banks that have since been deleted
+        setBankMix((mix) => mix.filter((entry) => list.some((b) => b.id === entry.question_bank_id)));
+      })
+      .catch((err) => {
+        console.error('Failed to load question banks:', err);
+        setBanks([]);
+        setLoadError('Failed to load question banks. Please refresh the page.');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    for (const { question_bank_id } of bankMix) {
+      if (requestedBanksRef.current.has(question_bank_id)) continue;
+      requestedBanksRef.current.add(question_bank_id);
+      questionBankAPI.get(question_bank_id)
+        .then((bank) => setBankDetails((prev) => ({ ...prev, [bank.id]: bank })))
+        .catch((err) => console.error('Failed to load question bank:', err));
+    }
+  }, [bankMix]);
+
+  const poolSize = useMemo(
+    () => bankMix.reduce(
+      (sum, entry) => sum + bankContribution(entry, banks.find((b) => b.id === entry.question_bank_id)),
+      0
+    ),
+    [bankMix, banks]
+  );
+
+  return { banks, loading, loadError, bankMix, setBankMix, bankDetails, poolSize };
+}
@@ -0,0 +1,108 @@
+/**
+ * usePresenterChannel Hooks
+ *
+ * Keeps the projector tab (/present/:code) in sync with the host control tab.
+ * The control tab owns the WebSocket and broadcasts a snapshot of everything
+ * the audience should see; the projector tab only renders it.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import type {
+  TeamScore,
+  PlayerInfo,
+  WSHostQuestion,
+  WSRoundResults,
+  WSAnswerDistribution,
+  WSReviewQuestion,
+  WSRandomEvent,
+  WSStealEvent,
+  WSWagerUpdate,
+  WSKnockoutUpdate,
+  WSMarathonProgress,
+  TeamUpPair,
+  Award,
+} from '@quiz-party/shared';
+
+export interface PresenterSnapshot {
+  gamePhase: string;
+  currentGame: string | null;
+  players: PlayerInfo[];
+  teams: TeamScore[];
+  hostQuestion: WSHostQuestion | null;
+  /** Epoch ms when the current question's time runs out */
+  questionEndsAt: number;
+  answerProgress: { received: number; total: number };
+  paused: boolean;
+  /** Null while the host has the chart hidden */
+  distribution: WSAnswerDistribution | null;
+  roundResults: WSRoundResults | null;
+  rankChanges: Record<string, number>;
+  toughestQuestion: WSHostQuestion | null;
+  awards: Award[] | null;
+  /** How many awards the host tab has revealed */
+  awardsRevealed: number;
+  review: WSReviewQuestion | null;
+  randomEvent: WSRandomEvent | null;
+  stealEvent: WSStealEvent | null;
+  wagers: WSWagerUpdate | null;
+  knockout: WSKnockoutUpdate | null;
+  pairs: TeamUpPair[];
+  marathon: WSMarathonProgress | null;
+}
+
+type PresenterChannelMessage =
+  | { type: 'snapshot'; snapshot: PresenterSnapshot }
+  | { type: 'request_snapshot' };
+
+function channelName(code: string): string {
+  return `quizparty-present-${code}`;
+}
+
+/**
+ * Control-tab side: broadcast the snapshot whenever it changes, and answer
+ * projector tabs that open mid-game and ask for the current state.
+ */
+export function usePresenterBroadcast(code: string | undefined, snapshot: PresenterSnapshot): void {
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const snapshotRef = useRef(snapshot);
+  snapshotRef.current = snapshot;
+
+  useEffect(() => {
+    if (!code || typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(channelName(code));
+    channelRef.current = channel;
+    channel.onmessage = (e: MessageEvent<PresenterChannelMessage>) => {
+      if (e.data.type === 'request_snapshot') {
+        channel.postMessage({ type: 'snapshot', snapshot: snapshotRef.current } satisfies PresenterChannelMessage);
+      }
+    };
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [code]);
+
+  useEffect(() => {
+    channelRef.current?.postMessage({ type: 'snapshot', snapshot } satisfies PresenterChannelMessage);
+  }, [snapshot]);
+}
+
+/**
+ * Projector-tab side: ask the control tab for the current state on open,
+ * then follow every snapshot it broadcasts. Null until a control tab answers.
+ */
+export function usePresenterSnapshot(code: string | undefined): PresenterSnapshot | null {
+  const [snapshot, setSnapshot] = useState<PresenterSnapshot | null>(null);
+
+  useEffect(() => {
+    if (!code || typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(channelName(code));
+    channel.onmessage = (e: MessageEvent<PresenterChannelMessage>) => {
+      if (e.data.type === 'snapshot') setSnapshot(e.data.snapshot);
+    };
+    channel.postMessage({ type: 'request_snapshot' } satisfies PresenterChannelMessage);
+    return () => channel.close();
+  }, [code]);
+
+  return snapshot;
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import {
+  assignmentAPI,
+  GAME_INFO,
+  type AssignmentConfig,
+  type AssignmentResult,
+} from '@quiz-party/shared'
+
+// Students play assignments in the student app, not this one
+const STUDENT_APP_URL = 'https://quizparty.rcnr.net'
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+export function AssignmentResults() {
+  const { code } = useParams<{ code: string }>()
+  const [assignment, setAssignment] = useState<AssignmentConfig | null>(null)
+  const [results, setResults] = useState<AssignmentResult[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [linkCopied, setLinkCopied] = useState(false)
+
+  const studentLink = `${STUDENT_APP_URL}/assignment/${code}`
+
+  const fetchResults = useCallback(async () => {
+    if (!code) return
+    setRefreshing(true)
+    try {
+      const [config, rows] = await Promise.all([
+        assignmentAPI.getByCode(code),
+        assignmentAPI.results(code),
+      ])
+      setAssignment(config)
+      setResults(rows)
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load assignment results:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load assignment results')
+    } finally {
+      setRefreshing(false)
+      setLoading(false)
+    }
+  }, [code])
+
+  useEffect(() => {
+    fetchResults()
+  }, [fetchResults])
+
+  // Finished attempts first, best score on top
+  const sortedResults = useMemo(
+    () => [...results].sort((a, b) =>
+      Number(b.completed_at !== null) - Number(a.completed_at !== null) || b.score - a.score
+    ),
+    [results]
+  )
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(studentLink)
+      .then(() => {
+        setLinkCopied(true)
+        setTimeout(() => setLinkCopied(false), 2000)
+      })
+      .catch(() => {})
+  }
+
+  if (loading) {
+    return <div className="text-white/50 text-center py-20">Loading...</div>
+  }
+
+  if (!assignment) {
+    return (
+      <div className="glass rounded-xl p-8 text-center max-w-md mx-auto">
+        <div className="text-red-400 mb-2">Failed to load assignment</div>
+        <p className="text-white/50 text-sm mb-4">{error}</p>
+        <Link to="/" className="text-ice underline">Back to dashboard</Link>
+      </div>
+    )
+  }
+
+  const pastDue = new Date(assignment.due_at).getTime() < Date.now()
+  const completedCount = results.filter((r) => r.completed_at !== null).length
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-3xl font-bold text-white" style={{ fontFamily: 'var(--font-display)' }}>
+          {assignment.name}
+        </h2>
+        <Link to="/" className="text-white/50 hover:text-white transition-colors">
+          ← Back
+        </Link>
+      </div>
+      <p className={`mb-6 ${pastDue ? 'text-red-400' : 'text-white/50'}`}>
+        {pastDue ? 'Closed' : 'Due'} {formatDateTime(assignment.due_at)}
+        <span className="text-white/50"> · {completedCount} completed · {results.length - completedCount} in progress</span>
+      </p>
+
+      {/* Share */}
+      <div className="glass rounded-xl p-4 mb-6 flex flex-wrap items-center gap-3">
+        <span className="font-mono text-ice text-lg">{assignment.assignment_code}</span>
+        <span className="flex-1 min-w-48 text-white/60 text-sm truncate">{studentLink}</span>
+        <button
+          onClick={handleCopyLink}
+          className="px-3 py-1.5 bg-ice/15 text-ice text-sm rounded-lg hover:bg-ice/25 transition-colors"
+        >
+          {linkCopied ? 'Link copied!' : 'Copy student link'}
+        </button>
+        <button
+          onClick={fetchResults}
+          disabled={refreshing}
+          className="px-3 py-1.5 bg-white/10 text-white/70 text-sm rounded-lg hover:bg-white/20 transition-colors disabled:opacity-40"
+        >
+          {refreshing ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 text-red-300 px-4 py-3 rounded-lg mb-4">
+          {error}
+        </div>
+      )}
+
+      {/* Results */}
+      {results.length === 0 ? (
+        <div className="glass rounded-xl p-8 text-center text-white/50">
+          No one has started yet. Share the link above with your class.
+        </div>
+      ) : (
+        <div className="glass rounded-xl overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-white/50 border-b border-white/10">
+                <th className="px-4 py-3 font-medium">Student</th>
+                {assignment.rounds.map((round, i) => (
+                  <th key={i} className="px-3 py-3 font-medium text-center" title={GAME_INFO[round.game_type].name}>
+                    {GAME_INFO[round.game_type].emoji}
+                  </th>
+                ))}
+                <th className="px-4 py-3 font-medium text-right">Correct</th>
+                <th className="px-4 py-3 font-medium text-right">Score</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedResults.map((r, i) => (
+                <tr key={`${r.display_name}-${r.started_at}-${i}`} className="border-b border-white/5 last:border-0">
+                  <td className="px-4 py-3 text-white">{r.display_name}</td>
+                  {assignment.rounds.map((_, round) => (
+                    <td key={round} className="px-3 py-3 text-center text-white/70">
+                      {r.round_scores[round] ?? <span className="text-white/20">–</span>}
+                    </td>
+                  ))}
+                  <td className="px-4 py-3 text-right text-white/70">
+                    {r.questions_correct}/{r.questions_answered}
+                    {r.questions_answered > 0 && (
+                      <span className="text-white/40"> ({Math.round((r.questions_correct / r.questions_answered) * 100)}%)</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right font-bold text-ice">{r.score}</td>
+                  <td className="px-4 py-3">
+                    {r.completed_at ? (
+                      <span className="text-green-400">Done {formatDateTime(r.completed_at)}</span>
+                    ) : (
+                      <span className="text-yellow-400">In progress</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
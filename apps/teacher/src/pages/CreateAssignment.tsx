@@ -0,0 +1,162 @@
+import { useState } from 'react'
+import { useNavigate, Link } from 'react-router-dom'
+import { assignmentAPI, type MiniGameType, type RoundConfig } from '@quiz-party/shared'
+import { GameSequenceBuilder, QuestionBankMixer, bankMixParams, defaultRounds } from '../components'
+import { useBankMix } from '../hooks/useBankMix'
+
+// Homework defaults to a few rounds, due a week out
+const DEFAULT_ROUND_COUNT = 3
+const DEFAULT_DUE_DAYS = 7
+
+// Team Up, Steal and Knockout need other players in the room
+const SOLO_GAMES: MiniGameType[] = ['speed_race', 'sharpshooter', 'high_stakes', 'marathon']
+
+// Value for a datetime-local input, which wants local time without a zone
+function toLocalInputValue(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+function defaultDueDate(): string {
+  const due = new Date()
+  due.setDate(due.getDate() + DEFAULT_DUE_DAYS)
+  due.setHours(23, 59, 0, 0)
+  return toLocalInputValue(due)
+}
+
+export function CreateAssignment() {
+  const navigate = useNavigate()
+  const { banks, loading, loadError, bankMix, setBankMix, bankDetails, poolSize } = useBankMix()
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState('')
+
+  // Form state
+  const [name, setName] = useState('')
+  const [rounds, setRounds] = useState<RoundConfig[]>(() => defaultRounds(DEFAULT_ROUND_COUNT, SOLO_GAMES))
+  const [dueAt, setDueAt] = useState(defaultDueDate)
+
+  const questionsNeeded = rounds.reduce((sum, r) => sum + r.question_count, 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (bankMix.length === 0) {
+      setError('Please select a question bank')
+      return
+    }
+    if (poolSize < questionsNeeded) {
+      setError(`Not enough questions: the pool has ${poolSize} but this assignment needs ${questionsNeeded}. Add a bank or shorten the sequence.`)
+      return
+    }
+    const due = new Date(dueAt)
+    if (Number.isNaN(due.getTime()) || due.getTime() <= Date.now()) {
+      setError('Pick a due date in the future')
+      return
+    }
+
+    setCreating(true)
+    setError('')
+
+    try {
+      const result = await assignmentAPI.create({
+        name: name || 'Quiz Party Homework',
+        ...bankMixParams(bankMix),
+        rounds,
+        due_at: due.toISOString(),
+      })
+      navigate(`/assignments/${result.assignment_code}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create assignment')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-white/50 text-center py-20">Loading...</div>
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <h2 className="text-3xl font-bold text-white" style={{ fontFamily: 'var(--font-display)' }}>
+          New Assignment
+        </h2>
+        <Link to="/" className="text-white/50 hover:text-white transition-colors">
+          ← Back
+        </Link>
+      </div>
+
+      <p className="text-white/50 mb-6">
+        Students play through on their own time with the same scoring as a live game. No host needed.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {(error || loadError) && (
+          <div className="bg-red-500/20 border border-red-500/50 text-red-300 px-4 py-3 rounded-lg">
+            {error || loadError}
+          </div>
+        )}
+
+        {/* Assignment Name */}
+        <div className="glass rounded-xl p-6">
+          <label className="block text-white/80 font-medium mb-2">Assignment Name (optional)</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Chapter 5 Homework"
+            maxLength={100}
+            className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-lg text-white placeholder:text-white/30 focus:outline-none focus:border-ice"
+          />
+        </div>
+
+        {/* Question Bank */}
+        <div className="glass rounded-xl p-6">
+          <label className="block text-white/80 font-medium mb-2">Question Banks *</label>
+          {banks.length === 0 ? (
+            <div className="text-white/50 text-center py-4">
+              No question banks available.{' '}
+              <Link to="/banks" className="text-ice underline">Create one</Link>
+            </div>
+          ) : (
+            <QuestionBankMixer
+              banks={banks}
+              mix={bankMix}
+              onChange={setBankMix}
+              details={bankDetails}
+              questionsNeeded={questionsNeeded}
+            />
+          )}
+        </div>
+
+        {/* Game Sequence */}
+        <div className="glass rounded-xl p-6">
+          <label className="block text-white/80 font-medium mb-3">Game Sequence</label>
+          <GameSequenceBuilder rounds={rounds} onChange={setRounds} allowedGames={SOLO_GAMES} />
+        </div>
+
+        {/* Due Date */}
+        <div className="glass rounded-xl p-6">
+          <label htmlFor="due-at" className="block text-white/80 font-medium mb-2">Due *</label>
+          <input
+            id="due-at"
+            type="datetime-local"
+            value={dueAt}
+            min={toLocalInputValue(new Date())}
+            onChange={(e) => setDueAt(e.target.value)}
+            className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-ice [color-scheme:dark]"
+          />
+        </div>
+
+        {/* Submit */}
+        <button
+          type="submit"
+          disabled={creating || bankMix.length === 0 || poolSize < questionsNeeded || !dueAt}
+          className="btn-amber w-full py-4 text-lg rounded-xl disabled:opacity-40"
+        >
+          {creating ? 'Creating...' : 'Create Assignment'}
+        </button>
+      </form>
+    </div>
+  )
+}
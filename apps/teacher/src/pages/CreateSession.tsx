@@ -1,12 +1,16 @@
 import { useState, useEffect } from 'react'
-import { useNavigate, Link } from 'react-router-dom'
+import { useNavigate, useLocation, Link } from 'react-router-dom'
 import {
   sessionAPI,
-  questionBankAPI,
-  type QuestionBank,
+  templateAPI,
+  type QuestionBankMix,
   type SessionPreset,
   type ChaosLevel,
+  type RoundConfig,
+  type SessionSetup,
 } from '@quiz-party/shared'
+import { GameSequenceBuilder, QuestionBankMixer, bankMixParams, defaultRounds } from '../components'
+import { useBankMix } from '../hooks/useBankMix'
 
 const PRESETS: Record<SessionPreset, { name: string; rounds: number; description: string }> = {
   quick: { name: 'Quick', rounds: 3, description: '~10 minutes' },
@@ -14,43 +18,104 @@ const PRESETS: Record<SessionPreset, { name: string; rounds: number; description
   extended: { name: 'Extended', rounds: 7, description: '~30 minutes' },
 }
 
+// Rough questions per preset round; the server decides, so a short pool only warns
+const PRESET_QUESTIONS_PER_ROUND = 5
+
 const CHAOS_LEVELS: Record<ChaosLevel, { name: string; description: string }> = {
   chill: { name: 'Chill', description: 'No random events' },
   spicy: { name: 'Spicy', description: 'Occasional surprises' },
   max: { name: 'Max Chaos', description: 'Expect the unexpected!' },
 }
 
+// Form values passed in router state by "run again" and template edits
+export type SessionPrefill = Partial<SessionSetup> & {
+  name?: string
+  // Set when editing a template, so saving updates it instead of adding another
+  templateId?: string
+  // Why the dashboard sent the teacher here instead of launching
+  error?: string
+}
+
+export function prefillBankMix(prefill: SessionPrefill | null): QuestionBankMix[] {
+  if (prefill?.question_banks?.length) return prefill.question_banks
+  return prefill?.question_bank_id ? [{ question_bank_id: prefill.question_bank_id, weight: 1 }] : []
+}
+
 export function CreateSession() {
   const navigate = useNavigate()
-  const [banks, setBanks] = useState<QuestionBank[]>([])
-  const [loading, setLoading] = useState(true)
+  const location = useLocation()
+  const prefill = location.state as SessionPrefill | null
+  const { banks, loading, loadError, bankMix, setBankMix, bankDetails, poolSize } = useBankMix(() => prefillBankMix(prefill))
   const [creating, setCreating] = useState(false)
-  const [error, setError] = useState('')
+  const [savingTemplate, setSavingTemplate] = useState(false)
+  const [templateSaved, setTemplateSaved] = useState(false)
+  const [error, setError] = useState(prefill?.error ?? '')
+  const templateId = prefill?.templateId
 
   // Form state
-  const [name, setName] = useState('')
-  const [selectedBank, setSelectedBank] = useState('')
-  const [preset, setPreset] = useState<SessionPreset>('standard')
-  const [chaosLevel, setChaosLevel] = useState<ChaosLevel>('spicy')
-  const [teamCount, setTeamCount] = useState(4)
+  const [name, setName] = useState(prefill?.name ?? '')
+  const [preset, setPreset] = useState<SessionPreset>(
+    prefill?.preset && prefill.preset in PRESETS ? (prefill.preset as SessionPreset) : 'standard'
+  )
+  const [chaosLevel, setChaosLevel] = useState<ChaosLevel>(
+    prefill?.chaos_level && prefill.chaos_level in CHAOS_LEVELS ? (prefill.chaos_level as ChaosLevel) : 'spicy'
+  )
+  const [teamCount, setTeamCount] = useState(prefill?.team_count ?? 4)
+  // null = let the server pick the sequence from the preset
+  const [customRounds, setCustomRounds] = useState<RoundConfig[] | null>(prefill?.rounds ?? null)
 
+  const questionsNeeded = customRounds
+    ? customRounds.reduce((sum, r) => sum + r.question_count, 0)
+    : PRESETS[preset].rounds * PRESET_QUESTIONS_PER_ROUND
+
+  // Only explicit rounds give an exact count worth blocking on
+  const poolBlocked = customRounds !== null && poolSize < questionsNeeded
+
+  // Clear the saved note once the form no longer matches the template
   useEffect(() => {
-    questionBankAPI.list()
-      .then(setBanks)
-      .catch((err) => {
-        console.error('Failed to load question banks:', err)
-        setBanks([])
-        setError('Failed to load question banks. Please refresh the page.')
-      })
-      .finally(() => setLoading(false))
-  }, [])
+    setTemplateSaved(false)
+  }, [name, bankMix, preset, chaosLevel, teamCount, customRounds])
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!selectedBank) {
+  const validate = (): boolean => {
+    if (bankMix.length === 0) {
       setError('Please select a question bank')
-      return
+      return false
+    }
+    if (poolBlocked) {
+      setError(`Not enough questions: the pool has ${poolSize} but this session needs ${questionsNeeded}. Add a bank or shorten the session.`)
+      return false
     }
+    return true
+  }
+
+  const buildSetup = (): SessionSetup => ({
+    ...bankMixParams(bankMix),
+    preset,
+    chaos_level: chaosLevel,
+    team_count: teamCount,
+    ...(customRounds && { rounds: customRounds }),
+  })
+
+  const handleSaveTemplate = async () => {
+    if (!validate()) return
+
+    setSavingTemplate(true)
+    setError('')
+
+    try {
+      const params = { name: name || 'Quiz Party Session', ...buildSetup() }
+      await (templateId ? templateAPI.update(templateId, params) : templateAPI.create(params))
+      setTemplateSaved(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template')
+    } finally {
+      setSavingTemplate(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!validate()) return
 
     setCreating(true)
     setError('')
@@ -58,10 +123,7 @@ export function CreateSession() {
     try {
       const result = await sessionAPI.create({
         name: name || 'Quiz Party Session',
-        question_bank_id: selectedBank,
-        preset,
-        chaos_level: chaosLevel,
-        team_count: teamCount,
+        ...buildSetup(),
       })
       // Navigate on success - if this throws, finally will reset state
       navigate(`/host/${result.session_code}`)
@@ -80,7 +142,7 @@ export function CreateSession() {
     <div className="max-w-2xl mx-auto">
       <div className="flex items-center justify-between mb-8">
         <h2 className="text-3xl font-bold text-white" style={{ fontFamily: 'var(--font-display)' }}>
-          New Session
+          {templateId ? 'Edit Template' : 'New Session'}
         </h2>
         <Link to="/" className="text-white/50 hover:text-white transition-colors">
           ← Back
@@ -88,9 +150,9 @@ export function CreateSession() {
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-6">
-        {error && (
+        {(error || loadError) && (
           <div className="bg-red-500/20 border border-red-500/50 text-red-300 px-4 py-3 rounded-lg">
-            {error}
+            {error || loadError}
           </div>
         )}
 
@@ -109,52 +171,64 @@ export function CreateSession() {
 
         {/* Question Bank */}
         <div className="glass rounded-xl p-6">
-          <label className="block text-white/80 font-medium mb-2">Question Bank *</label>
+          <label className="block text-white/80 font-medium mb-2">Question Banks *</label>
+          <p className="text-white/40 text-sm mb-3">Pick several to mix a cumulative review.</p>
           {banks.length === 0 ? (
             <div className="text-white/50 text-center py-4">
               No question banks available.{' '}
               <Link to="/banks" className="text-ice underline">Create one</Link>
             </div>
           ) : (
-            <select
-              value={selectedBank}
-              onChange={(e) => setSelectedBank(e.target.value)}
-              className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-ice"
-            >
-              <option value="">Select a question bank...</option>
-              {banks.map((b) => (
-                <option key={b.id} value={b.id}>
-                  {b.name} ({b.question_count} questions)
-                </option>
-              ))}
-            </select>
+            <QuestionBankMixer
+              banks={banks}
+              mix={bankMix}
+              onChange={setBankMix}
+              details={bankDetails}
+              questionsNeeded={questionsNeeded}
+              estimated={!customRounds}
+            />
           )}
         </div>
 
         {/* Preset */}
         <div className="glass rounded-xl p-6">
-          <label className="block text-white/80 font-medium mb-3">Session Length</label>
-          <div className="grid grid-cols-3 gap-3">
-            {Object.entries(PRESETS).map(([key, info]) => {
-              const presetKey = key as SessionPreset
-              const isSelected = preset === presetKey
-              return (
-                <button
-                  key={key}
-                  type="button"
-                  onClick={() => setPreset(presetKey)}
-                  className={`p-4 rounded-lg border-2 text-center transition-all ${
-                    isSelected
-                      ? 'border-ice bg-ice/10 text-white'
-                      : 'border-white/10 text-white/60 hover:border-white/30'
-                  }`}
-                >
-                  <p className="font-bold">{info.name}</p>
-                  <p className="text-xs opacity-60">{info.description}</p>
-                </button>
-              )
-            })}
+          <div className="flex items-center justify-between mb-3">
+            <label className="block text-white/80 font-medium">
+              {customRounds ? 'Game Sequence' : 'Session Length'}
+            </label>
+            <button
+              type="button"
+              onClick={() => setCustomRounds(customRounds ? null : defaultRounds(PRESETS[preset].rounds))}
+              className="text-sm text-ice hover:underline"
+            >
+              {customRounds ? 'Use a preset instead' : 'Advanced: build your own'}
+            </button>
           </div>
+          {customRounds ? (
+            <GameSequenceBuilder rounds={customRounds} onChange={setCustomRounds} />
+          ) : (
+            <div className="grid grid-cols-3 gap-3">
+              {Object.entries(PRESETS).map(([key, info]) => {
+                const presetKey = key as SessionPreset
+                const isSelected = preset === presetKey
+                return (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => setPreset(presetKey)}
+                    className={`p-4 rounded-lg border-2 text-center transition-all ${
+                      isSelected
+                        ? 'border-ice bg-ice/10 text-white'
+                        : 'border-white/10 text-white/60 hover:border-white/30'
+                    }`}
+                  >
+                    <p className="font-bold">{info.name}</p>
+                    <p className="text-xs opacity-60">{info.description}</p>
+                  </button>
+                )
+              })}
+            </div>
+          )}
         </div>
 
         {/* Chaos Level */}
@@ -203,13 +277,27 @@ export function CreateSession() {
         </div>
 
         {/* Submit */}
-        <button
-          type="submit"
-          disabled={creating || !selectedBank}
-          className="btn-amber w-full py-4 text-lg rounded-xl disabled:opacity-40"
-        >
-          {creating ? 'Creating...' : 'Create Session'}
-        </button>
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={handleSaveTemplate}
+            disabled={savingTemplate || templateSaved || bankMix.length === 0 || poolBlocked}
+            className="px-6 py-4 rounded-xl bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-40"
+          >
+            {savingTemplate
+              ? 'Saving...'
+              : templateId
+                ? templateSaved ? 'Template updated ✓' : 'Update template'
+                : templateSaved ? 'Saved as template ✓' : 'Save as template'}
+          </button>
+          <button
+            type="submit"
+            disabled={creating || bankMix.length === 0 || poolBlocked}
+            className="btn-amber flex-1 py-4 text-lg rounded-xl disabled:opacity-40"
+          >
+            {creating ? 'Creating...' : 'Create Session'}
+          </button>
+        </div>
       </form>
     </div>
   )
@@ -1,17 +1,75 @@
 import { useState, useEffect, useMemo } from 'react'
-import { Link } from 'react-router-dom'
-import { sessionAPI, questionBankAPI, type SessionConfig, type QuestionBank } from '@quiz-party/shared'
+import { Link, useNavigate } from 'react-router-dom'
+import {
+  sessionAPI,
+  templateAPI,
+  assignmentAPI,
+  questionBankAPI,
+  GAME_INFO,
+  type SessionConfig,
+  type SessionTemplate,
+  type AssignmentConfig,
+  type QuestionBank,
+} from '@quiz-party/shared'
+import { bankContribution } from '../components'
+import { prefillBankMix, type SessionPrefill } from './CreateSession'
 
 // Dashboard list display limits
 const RECENT_SESSIONS_LIMIT = 10
 const RECENT_BANKS_LIMIT = 5
+const RECENT_ASSIGNMENTS_LIMIT = 5
+
+// Form values for CreateSession from a past session or template
+function toPrefill(source: SessionConfig | SessionTemplate): SessionPrefill {
+  return {
+    name: source.name,
+    question_bank_id: source.question_bank_id,
+    question_banks: source.question_banks,
+    preset: source.preset,
+    chaos_level: source.chaos_level,
+    team_count: source.team_count,
+    rounds: source.rounds,
+  }
+}
+
+function describeTemplate(template: SessionTemplate): string {
+  const length = template.rounds
+    ? template.rounds.map((r) => GAME_INFO[r.game_type]?.emoji ?? '❓').join('')
+    : template.preset
+  const banks = template.question_banks?.length ?? 1
+  return `${length} · ${template.chaos_level} · ${template.team_count} teams${banks > 1 ? ` · ${banks} banks` : ''}`
+}
+
+// Why a template can't launch as saved, or null when it can
+function launchProblem(template: SessionTemplate, banks: QuestionBank[]): string | null {
+  const mix = prefillBankMix(template)
+  const banksById = new Map(banks.map((b) => [b.id, b]))
+  if (mix.length === 0 || mix.some((entry) => !banksById.has(entry.question_bank_id))) {
+    return `A question bank used by "${template.name}" no longer exists. Pick another before launching.`
+  }
+  // Presets leave the question count to the server, so only custom rounds can be checked
+  if (template.rounds) {
+    const needed = template.rounds.reduce((sum, r) => sum + r.question_count, 0)
+    const pool = mix.reduce((sum, entry) => sum + bankContribution(entry, banksById.get(entry.question_bank_id)), 0)
+    if (pool < needed) {
+      return `Not enough questions: "${template.name}" needs ${needed} but its banks now hold ${pool}. Add a bank or shorten the session.`
+    }
+  }
+  return null
+}
 
 export function Dashboard() {
+  const navigate = useNavigate()
   const [sessions, setSessions] = useState<SessionConfig[]>([])
+  const [templates, setTemplates] = useState<SessionTemplate[]>([])
+  const [assignments, setAssignments] = useState<AssignmentConfig[]>([])
   const [banks, setBanks] = useState<QuestionBank[]>([])
   const [loading, setLoading] = useState(true)
   const [sessionsError, setSessionsError] = useState<string | null>(null)
+  const [templatesError, setTemplatesError] = useState<string | null>(null)
+  const [assignmentsError, setAssignmentsError] = useState<string | null>(null)
   const [banksError, setBanksError] = useState<string | null>(null)
+  const [launchingId, setLaunchingId] = useState<string | null>(null)
 
   useEffect(() => {
     const fetchData = async () => {
@@ -25,6 +83,26 @@ export function Dashboard() {
         setSessions([])
       }
 
+      // Fetch templates
+      try {
+        const templateData = await templateAPI.list()
+        setTemplates(templateData)
+      } catch (err) {
+        console.error('Failed to load templates:', err)
+        setTemplatesError(err instanceof Error ? err.message : 'Failed to load templates')
+        setTemplates([])
+      }
+
+      // Fetch assignments
+      try {
+        const assignmentData = await assignmentAPI.list()
+        setAssignments(assignmentData)
+      } catch (err) {
+        console.error('Failed to load assignments:', err)
+        setAssignmentsError(err instanceof Error ? err.message : 'Failed to load assignments')
+        setAssignments([])
+      }
+
       // Fetch question banks
       try {
         const bankData = await questionBankAPI.list()
@@ -46,11 +124,53 @@ export function Dashboard() {
     () => sessions.slice(0, RECENT_SESSIONS_LIMIT),
     [sessions]
   )
+  const recentAssignments = useMemo(
+    () => assignments.slice(0, RECENT_ASSIGNMENTS_LIMIT),
+    [assignments]
+  )
   const recentBanks = useMemo(
     () => banks.slice(0, RECENT_BANKS_LIMIT),
     [banks]
   )
 
+  const handleLaunch = async (template: SessionTemplate) => {
+    // Banks change after a template is saved; send the teacher to the form to fix it up
+    const problem = launchProblem(template, banks)
+    if (problem) {
+      const state: SessionPrefill = { ...toPrefill(template), templateId: template.id, error: problem }
+      navigate('/create', { state })
+      return
+    }
+
+    setLaunchingId(template.id)
+    setTemplatesError(null)
+    try {
+      const result = await sessionAPI.create({
+        name: template.name,
+        question_bank_id: template.question_bank_id,
+        question_banks: template.question_banks,
+        preset: template.preset,
+        chaos_level: template.chaos_level,
+        team_count: template.team_count,
+        rounds: template.rounds,
+      })
+      navigate(`/host/${result.session_code}`)
+    } catch (err) {
+      setTemplatesError(err instanceof Error ? err.message : 'Failed to launch template')
+      setLaunchingId(null)
+    }
+  }
+
+  const handleDeleteTemplate = async (template: SessionTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return
+    try {
+      await templateAPI.delete(template.id)
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id))
+    } catch (err) {
+      setTemplatesError(err instanceof Error ? err.message : 'Failed to delete template')
+    }
+  }
+
   if (loading) {
     return <div className="text-white/50 text-center py-20">Loading...</div>
   }
@@ -61,12 +181,69 @@ export function Dashboard() {
         <h2 className="text-3xl font-bold text-white" style={{ fontFamily: 'var(--font-display)' }}>
           Dashboard
         </h2>
-        <Link
-          to="/create"
-          className="btn-amber px-6 py-3"
-        >
-          New Session
-        </Link>
+        <div className="flex gap-3">
+          <Link
+            to="/assignments/new"
+            className="px-6 py-3 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-colors"
+          >
+            New Assignment
+          </Link>
+          <Link
+            to="/create"
+            className="btn-amber px-6 py-3"
+          >
+            New Session
+          </Link>
+        </div>
+      </div>
+
+      {/* Templates */}
+      <div className="mb-8">
+        <h3 className="text-lg font-semibold text-white/80 mb-4">Templates</h3>
+        {templatesError && (
+          <div className="bg-red-500/20 border border-red-500/50 text-red-300 px-4 py-3 rounded-lg mb-3 text-sm">
+            {templatesError}
+          </div>
+        )}
+        {templates.length === 0 ? (
+          <div className="glass rounded-xl p-6 text-center text-white/50 text-sm">
+            No templates yet. Use "Save as template" when creating a session to reuse its setup.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {templates.map((t) => (
+              <div key={t.id} className="glass rounded-xl p-4 flex flex-col gap-3">
+                <div>
+                  <p className="font-medium text-white">{t.name}</p>
+                  <p className="text-sm text-white/50 capitalize">{describeTemplate(t)}</p>
+                </div>
+                <div className="flex gap-2 mt-auto">
+                  <button
+                    onClick={() => handleLaunch(t)}
+                    disabled={launchingId !== null}
+                    className="btn-amber flex-1 px-3 py-1.5 text-sm disabled:opacity-40"
+                  >
+                    {launchingId === t.id ? 'Launching...' : 'Launch'}
+                  </button>
+                  <Link
+                    to="/create"
+                    state={{ ...toPrefill(t), templateId: t.id }}
+                    className="px-3 py-1.5 bg-white/10 text-white/70 text-sm rounded-lg hover:bg-white/20 transition-colors"
+                  >
+                    Edit
+                  </Link>
+                  <button
+                    onClick={() => handleDeleteTemplate(t)}
+                    className="px-3 py-1.5 bg-white/5 text-white/50 text-sm rounded-lg hover:bg-red-500/20 hover:text-red-300 transition-colors"
+                    aria-label={`Delete template ${t.name}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -108,6 +285,13 @@ export function Dashboard() {
                         Host
                       </Link>
                     )}
+                    <Link
+                      to="/create"
+                      state={toPrefill(s)}
+                      className="px-3 py-1.5 bg-white/10 text-white/70 text-sm rounded-lg hover:bg-white/20 transition-colors"
+                    >
+                      Run again
+                    </Link>
                   </div>
                 </div>
               ))}
@@ -115,46 +299,85 @@ export function Dashboard() {
           )}
         </div>
 
-        {/* Question Banks */}
-        <div>
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold text-white/80">Question Banks</h3>
-            <Link
-              to="/banks"
-              className="text-sm text-ice hover:text-ice-light transition-colors"
-            >
-              View All
-            </Link>
+        <div className="space-y-8">
+          {/* Assignments */}
+          <div>
+            <h3 className="text-lg font-semibold text-white/80 mb-4">Assignments</h3>
+            {assignmentsError ? (
+              <div className="glass rounded-xl p-8 text-center">
+                <div className="text-red-400 mb-2">Failed to load assignments</div>
+                <p className="text-white/50 text-sm">{assignmentsError}</p>
+              </div>
+            ) : assignments.length === 0 ? (
+              <div className="glass rounded-xl p-8 text-center text-white/50">
+                No assignments yet. Set one as self-paced homework!
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {recentAssignments.map((a) => {
+                  const pastDue = new Date(a.due_at).getTime() < Date.now()
+                  return (
+                    <Link
+                      key={a.id}
+                      to={`/assignments/${a.assignment_code}`}
+                      className="glass rounded-xl p-4 flex items-center justify-between hover:bg-white/5 transition-colors"
+                    >
+                      <div>
+                        <p className="font-medium text-white">{a.name}</p>
+                        <p className="text-sm text-white/50">
+                          {pastDue ? 'Closed' : 'Due'} {new Date(a.due_at).toLocaleDateString()}
+                          {` · ${a.submission_count} ${a.submission_count === 1 ? 'student' : 'students'}`}
+                        </p>
+                      </div>
+                      <span className="text-white/30">→</span>
+                    </Link>
+                  )
+                })}
+              </div>
+            )}
           </div>
-          {banksError ? (
-            <div className="glass rounded-xl p-8 text-center">
-              <div className="text-red-400 mb-2">Failed to load question banks</div>
-              <p className="text-white/50 text-sm">{banksError}</p>
-            </div>
-          ) : banks.length === 0 ? (
-            <div className="glass rounded-xl p-8 text-center text-white/50">
-              No question banks yet. Create one to get started!
-            </div>
-          ) : (
-            <div className="space-y-3">
-              {recentBanks.map((b) => (
-                <Link
-                  key={b.id}
-                  to={`/banks/${b.id}`}
-                  className="glass rounded-xl p-4 flex items-center justify-between hover:bg-white/5 transition-colors"
-                >
-                  <div>
-                    <p className="font-medium text-white">{b.name}</p>
-                    <p className="text-sm text-white/50">
-                      {b.question_count} questions
-                      {b.subject && ` · ${b.subject}`}
-                    </p>
-                  </div>
-                  <span className="text-white/30">→</span>
-                </Link>
-              ))}
+
+          {/* Question Banks */}
+          <div>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-white/80">Question Banks</h3>
+              <Link
+                to="/banks"
+                className="text-sm text-ice hover:text-ice-light transition-colors"
+              >
+                View All
+              </Link>
             </div>
-          )}
+            {banksError ? (
+              <div className="glass rounded-xl p-8 text-center">
+                <div className="text-red-400 mb-2">Failed to load question banks</div>
+                <p className="text-white/50 text-sm">{banksError}</p>
+              </div>
+            ) : banks.length === 0 ? (
+              <div className="glass rounded-xl p-8 text-center text-white/50">
+                No question banks yet. Create one to get started!
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {recentBanks.map((b) => (
+                  <Link
+                    key={b.id}
+                    to={`/banks/${b.id}`}
+                    className="glass rounded-xl p-4 flex items-center justify-between hover:bg-white/5 transition-colors"
+                  >
+                    <div>
+                      <p className="font-medium text-white">{b.name}</p>
+                      <p className="text-sm text-white/50">
+                        {b.question_count} questions
+                        {b.subject && ` · ${b.subject}`}
+                      </p>
+                    </div>
+                    <span className="text-white/30">→</span>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { useAuth } from '@clerk/clerk-react'
 import {
@@ -6,17 +6,70 @@ import {
   sessionAPI,
   type SessionConfig,
   type PlayerInfo,
+  type PlayerAccommodations,
   type TeamScore,
   type HostWSMessage,
+  type WSWagerUpdate,
+  type WSKnockoutUpdate,
+  type TeamUpPair,
+  type WSMarathonProgress,
+  type WSStealEvent,
+  type WSRandomEvent,
+  type Award,
+  type WSReviewQuestion,
+  type WSHostQuestion,
+  type WSRoundResults,
+  type WSAnswerDistribution,
   GAME_INFO,
   isLobbyUpdate,
   isPlayerConnected,
   isPlayerDisconnected,
   isGameIntro,
+  isHostQuestion,
+  isAnswerUpdate,
+  isTimerUpdate,
+  isAnswerDistribution,
+  isQuestionVoided,
   isRoundResults,
+  isWagerUpdate,
+  isKnockoutUpdate,
+  isPairStatus,
+  isMarathonProgress,
+  isStealEvent,
+  isRandomEvent,
+  isAwards,
+  isReviewQuestion,
+  isReviewEnded,
   isSessionEnded,
 } from '@quiz-party/shared'
-import { QRCodeDisplay } from '../components'
+import {
+  QRCodeDisplay,
+  WagerBoard,
+  KnockoutBoard,
+  PairGrid,
+  MarathonRace,
+  StealBanner,
+  RandomEventCard,
+  AwardsCeremony,
+  ReviewPanel,
+  HostQuestionPanel,
+  HostControls,
+  RoundResultsScreen,
+  AnswerDistributionChart,
+  PlayerCard,
+  LobbyTeamBoard,
+  SessionTimeline,
+} from '../components'
+import { usePresenterBroadcast, type PresenterSnapshot } from '../hooks/usePresenterChannel'
+
+// How long the steal announcement stays on the projector
+const STEAL_BANNER_MS = 4000
+// How long a random event card covers the projector unless dismissed
+const RANDOM_EVENT_CARD_MS = 8000
+// Assumed seconds per question until the first live question reports its own
+const DEFAULT_SECONDS_PER_QUESTION = 20
+// Phases where the host can pause, advance or skip
+const IN_GAME_PHASES = ['game_intro', 'playing', 'round_results', 'intermission', 'random_event']
 
 export function HostScreen() {
   const { code } = useParams<{ code: string }>()
@@ -26,16 +79,58 @@ export function HostScreen() {
   const [session, setSession] = useState<SessionConfig | null>(null)
   const [players, setPlayers] = useState<PlayerInfo[]>([])
   const [teams, setTeams] = useState<TeamScore[]>([])
+  const [lobbyTeamIds, setLobbyTeamIds] = useState<string[]>([])
+  const [lobbyTeamNames, setLobbyTeamNames] = useState<Record<string, string>>({})
+  const [lobbyLocked, setLobbyLocked] = useState(false)
   const [gamePhase, setGamePhase] = useState<string>('lobby')
   const [currentGame, setCurrentGame] = useState<string | null>(null)
+  const [roundInfo, setRoundInfo] = useState({ roundNumber: 0, questionsPerRound: 0 })
+  const [roundWinners, setRoundWinners] = useState<Record<number, string>>({})
+  // Latest question time limit, kept between questions for the time-left estimate
+  const [secondsPerQuestion, setSecondsPerQuestion] = useState(DEFAULT_SECONDS_PER_QUESTION)
+  const [wagers, setWagers] = useState<WSWagerUpdate | null>(null)
+  const [knockout, setKnockout] = useState<WSKnockoutUpdate | null>(null)
+  const [pairs, setPairs] = useState<TeamUpPair[]>([])
+  const [marathon, setMarathon] = useState<WSMarathonProgress | null>(null)
+  const [stealEvent, setStealEvent] = useState<WSStealEvent | null>(null)
+  const [randomEvent, setRandomEvent] = useState<WSRandomEvent | null>(null)
+  const [awards, setAwards] = useState<Award[] | null>(null)
+  const [awardsRevealed, setAwardsRevealed] = useState(0)
+  const [review, setReview] = useState<WSReviewQuestion | null>(null)
+  const [hostQuestion, setHostQuestion] = useState<WSHostQuestion | null>(null)
+  const [questionEndsAt, setQuestionEndsAt] = useState(0)
+  const [answerProgress, setAnswerProgress] = useState({ received: 0, total: 0 })
+  const [paused, setPaused] = useState(false)
+  const [roundResults, setRoundResults] = useState<WSRoundResults | null>(null)
+  const [rankChanges, setRankChanges] = useState<Record<string, number>>({})
+  const [toughestQuestion, setToughestQuestion] = useState<WSHostQuestion | null>(null)
+  // Every question's distribution this session, in order; stored per session so a reload
+  // keeps them and the end-of-session report can read them back
+  const [distributions, setDistributions] = useState<WSAnswerDistribution[]>(
+    () => (code ? sessionAPI.getStoredDistributions(code) : [])
+  )
+  const [showDistribution, setShowDistribution] = useState(true)
+  // Accommodations set from this tab; lobby updates may not echo them, so they override what the server sends
+  const [accommodationOverrides, setAccommodationOverrides] = useState<Record<string, PlayerAccommodations>>({})
+  // Team ranks as of the previous round, for movement arrows
+  const lastRoundRanksRef = useRef<Record<string, number>>({})
+  // Team totals as of the previous round, to find who won each round
+  const lastRoundScoresRef = useRef<Record<string, number>>({})
+  // Questions seen this session, so round results can show the toughest one
+  const seenQuestionsRef = useRef(new Map<string, WSHostQuestion>())
   const [token, setToken] = useState<string>('')
   const [loading, setLoading] = useState(true)
+  const [remoteLinkCopied, setRemoteLinkCopied] = useState(false)
 
   // Get auth token
   useEffect(() => {
     getToken().then((t) => setToken(t || ''))
   }, [getToken])
 
+  useEffect(() => {
+    if (code) sessionAPI.storeDistributions(code, distributions)
+  }, [code, distributions])
+
   // Fetch initial session data
   useEffect(() => {
     if (!code) return
@@ -50,6 +145,9 @@ export function HostScreen() {
     if (isLobbyUpdate(msg)) {
       setPlayers(msg.players)
       setGamePhase(msg.status)
+      setLobbyTeamIds(Object.keys(msg.teams))
+      setLobbyTeamNames(msg.team_names ?? {})
+      setLobbyLocked(!!msg.locked)
     } else if (isPlayerConnected(msg)) {
       setPlayers((prev) => {
         if (prev.find((p) => p.player_id === msg.player_id)) return prev
@@ -70,9 +168,88 @@ export function HostScreen() {
     } else if (isGameIntro(msg)) {
       setGamePhase('game_intro')
       setCurrentGame(msg.game_type)
+      if ('round_number' in msg) {
+        setRoundInfo({ roundNumber: msg.round_number, questionsPerRound: msg.questions_per_round })
+      }
+      setWagers(null)
+      setKnockout(null)
+      setPairs([])
+      setMarathon(null)
+      setHostQuestion(null)
+    } else if (isHostQuestion(msg)) {
+      setGamePhase('playing')
+      setHostQuestion(msg)
+      setSecondsPerQuestion(msg.time_limit)
+      seenQuestionsRef.current.set(msg.question_id, msg)
+      setQuestionEndsAt(Date.now() + msg.time_limit * 1000)
+      setAnswerProgress({ received: msg.answers_received, total: msg.total_players })
+    } else if (isAnswerUpdate(msg)) {
+      setAnswerProgress({ received: msg.answers_received, total: msg.total_players })
+    } else if (isAnswerDistribution(msg)) {
+      setDistributions((prev) => [
+        ...prev.filter((d) => d.question_id !== msg.question_id),
+        msg,
+      ])
+    } else if (isTimerUpdate(msg)) {
+      setPaused(msg.paused)
+      setQuestionEndsAt(Date.now() + msg.time_remaining * 1000)
+    } else if (isQuestionVoided(msg)) {
+      setHostQuestion((prev) => (prev?.question_id === msg.question_id ? null : prev))
+    } else if (isWagerUpdate(msg)) {
+      setWagers(msg)
+    } else if (isKnockoutUpdate(msg)) {
+      setKnockout(msg)
+    } else if (isPairStatus(msg)) {
+      setPairs(msg.pairs)
+    } else if (isMarathonProgress(msg)) {
+      setMarathon(msg)
+    } else if (isStealEvent(msg)) {
+      setStealEvent(msg)
+      setTeams(msg.teams)
+    } else if (isAwards(msg)) {
+      setGamePhase('awards')
+      setAwards(msg.awards)
+      setAwardsRevealed(0)
+    } else if (isReviewQuestion(msg)) {
+      if (!('question' in msg)) return
+      setGamePhase('review')
+      setReview(msg)
+    } else if (isReviewEnded(msg)) {
+      // Review is the last stop; going back to awards would replay the ceremony
+      setGamePhase('ended')
+      setReview(null)
+    } else if (isRandomEvent(msg)) {
+      setGamePhase('random_event')
+      setRandomEvent(msg)
     } else if (isRoundResults(msg)) {
       setGamePhase('round_results')
+      setWagers(null)
+      setHostQuestion(null)
       if ('teams' in msg) {
+        const previousRanks = lastRoundRanksRef.current
+        const changes: Record<string, number> = {}
+        for (const t of msg.teams) {
+          const before = previousRanks[t.team_id]
+          changes[t.team_id] = before !== undefined ? before - t.rank : 0
+        }
+        lastRoundRanksRef.current = Object.fromEntries(msg.teams.map((t) => [t.team_id, t.rank]))
+        setRankChanges(changes)
+
+        // Round winner: most points gained this round, not overall leader
+        const previousScores = lastRoundScoresRef.current
+        const winner = msg.teams.reduce<TeamScore | null>((best, t) => {
+          const gained = t.total_score - (previousScores[t.team_id] ?? 0)
+          const bestGained = best ? best.total_score - (previousScores[best.team_id] ?? 0) : -Infinity
+          return gained > bestGained ? t : best
+        }, null)
+        lastRoundScoresRef.current = Object.fromEntries(msg.teams.map((t) => [t.team_id, t.total_score]))
+        if (winner) setRoundWinners((prev) => ({ ...prev, [msg.round_number]: winner.name }))
+        setToughestQuestion(
+          msg.most_missed_question_id
+            ? seenQuestionsRef.current.get(msg.most_missed_question_id) ?? null
+            : null
+        )
+        setRoundResults(msg)
         setTeams(msg.teams)
       }
     } else if (isSessionEnded(msg)) {
@@ -89,12 +266,81 @@ export function HostScreen() {
     enabled: !!code && !!token,
   })
 
+  // Dismiss the steal banner after a few seconds
+  useEffect(() => {
+    if (!stealEvent) return
+    const timeout = setTimeout(() => setStealEvent(null), STEAL_BANNER_MS)
+    return () => clearTimeout(timeout)
+  }, [stealEvent])
+
+  // Dismiss the random event card after it has had its moment
+  useEffect(() => {
+    if (!randomEvent) return
+    const timeout = setTimeout(() => setRandomEvent(null), RANDOM_EVENT_CARD_MS)
+    return () => clearTimeout(timeout)
+  }, [randomEvent])
+
+  const currentDistribution = useMemo(
+    () => hostQuestion
+      ? distributions.find((d) => d.question_id === hostQuestion.question_id) ?? null
+      : null,
+    [distributions, hostQuestion]
+  )
+
+  // Everything the projector tab shows, mirrored over BroadcastChannel
+  const presenterSnapshot = useMemo<PresenterSnapshot>(
+    () => ({
+      gamePhase,
+      currentGame,
+      players,
+      teams,
+      hostQuestion,
+      questionEndsAt,
+      answerProgress,
+      paused,
+      // "Hide chart" keeps answers off the projector too
+      distribution: showDistribution ? currentDistribution : null,
+      roundResults,
+      rankChanges,
+      toughestQuestion,
+      awards,
+      awardsRevealed,
+      review,
+      randomEvent,
+      stealEvent,
+      wagers,
+      knockout,
+      pairs,
+      marathon,
+    }),
+    [
+      gamePhase, currentGame, players, teams, hostQuestion, questionEndsAt, answerProgress,
+      paused, showDistribution, currentDistribution, roundResults, rankChanges, toughestQuestion,
+      awards, awardsRevealed, review, randomEvent, stealEvent, wagers, knockout, pairs, marathon,
+    ]
+  )
+  usePresenterBroadcast(code, presenterSnapshot)
+
   // Memoize sorted teams to prevent unnecessary re-renders
   const sortedTeams = useMemo(
     () => [...teams].sort((a, b) => a.rank - b.rank),
     [teams]
   )
 
+  // Team names for the move picker and lobby columns. Teams come from the lobby's
+  // team map and players' team_id; team_names and scoring only supply labels.
+  const teamNames = useMemo(() => {
+    const teamIds = [...new Set([
+      ...lobbyTeamIds,
+      ...players.flatMap((p) => (p.team_id ? [p.team_id] : [])),
+    ])]
+    return {
+      ...Object.fromEntries(teamIds.map((id, i) => [id, `Team ${i + 1}`])),
+      ...lobbyTeamNames,
+      ...Object.fromEntries(teams.map((t) => [t.team_id, t.name])),
+    }
+  }, [lobbyTeamIds, players, lobbyTeamNames, teams])
+
   // Memoize current game info to avoid repeated lookups
   const currentGameInfo = useMemo(
     () => currentGame ? GAME_INFO[currentGame as keyof typeof GAME_INFO] : null,
@@ -105,6 +351,60 @@ export function HostScreen() {
     send({ type: 'start_game' })
   }
 
+  // Stable handlers so the control bar's keyboard listener isn't re-bound every render
+  const handlePauseToggle = useCallback(() => {
+    send({ type: paused ? 'resume' : 'pause' })
+  }, [send, paused])
+
+  const handleNext = useCallback(() => {
+    send({ type: 'next_question' })
+  }, [send])
+
+  const handleSkipQuestion = useCallback(() => {
+    send({ type: 'void_question' })
+  }, [send])
+
+  const handleAddTime = useCallback((seconds: number) => {
+    send({ type: 'add_time', seconds })
+  }, [send])
+
+  const handleKickPlayer = (playerId: string) => {
+    send({ type: 'kick_player', player_id: playerId })
+    // Drop the card now; the next lobby update confirms it
+    setPlayers((prev) => prev.filter((p) => p.player_id !== playerId))
+  }
+
+  const handleRenamePlayer = (playerId: string, displayName: string) => {
+    send({ type: 'rename_player', player_id: playerId, display_name: displayName })
+  }
+
+  const handleMovePlayer = (playerId: string, teamId: string) => {
+    send({ type: 'move_player', player_id: playerId, team_id: teamId })
+    // Move the card now so drag-and-drop feels instant; the next lobby update confirms it
+    setPlayers((prev) =>
+      prev.map((p) => (p.player_id === playerId ? { ...p, team_id: teamId } : p))
+    )
+  }
+
+  // Takes effect from the player's next question
+  const handleSetAccommodations = (playerId: string, accommodations: PlayerAccommodations) => {
+    send({ type: 'set_accommodations', player_id: playerId, accommodations })
+    setAccommodationOverrides((prev) => ({ ...prev, [playerId]: accommodations }))
+  }
+
+  const sendReviewStep = (reviewIndex: number) => {
+    send({ type: 'review_step', review_index: reviewIndex })
+  }
+
+  const handleCopyRemoteLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}/remote/${code}`)
+      .then(() => {
+        setRemoteLinkCopied(true)
+        setTimeout(() => setRemoteLinkCopied(false), 2000)
+      })
+      .catch(() => {})
+  }
+
   const handleEndSession = async () => {
     if (!code || !confirm('End this session?')) return
     try {
@@ -133,6 +433,10 @@ export function HostScreen() {
 
   return (
     <div className="space-y-6">
+      {randomEvent && (
+        <RandomEventCard event={randomEvent} onDismiss={() => setRandomEvent(null)} />
+      )}
+
       {/* Header */}
       <div className="glass rounded-xl p-6 flex items-center justify-between">
         <div>
@@ -145,6 +449,41 @@ export function HostScreen() {
           }`}>
             {connectionStatus}
           </div>
+          <button
+            onClick={() => window.open(`/present/${code}`, `quizparty-present-${code}`)}
+            className="px-4 py-3 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors"
+            title="Open the audience view in a new window to drag onto the projector"
+          >
+            Open projector view
+          </button>
+          <button
+            onClick={handleCopyRemoteLink}
+            className="px-4 py-3 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors"
+            title="Copy a link to run this game from your phone"
+          >
+            {remoteLinkCopied ? 'Link copied!' : 'Phone remote'}
+          </button>
+          {gamePhase === 'awards' && (
+            <button
+              onClick={() => send({ type: 'start_review' })}
+              className="btn-amber px-6 py-3"
+            >
+              Review Missed Questions
+            </button>
+          )}
+          {gamePhase === 'lobby' && (
+            <button
+              onClick={() => send({ type: 'set_lobby_locked', locked: !lobbyLocked })}
+              aria-pressed={lobbyLocked}
+              className={`px-4 py-3 rounded-lg transition-colors ${
+                lobbyLocked
+                  ? 'bg-amber-500/20 text-amber-300 hover:bg-amber-500/30'
+                  : 'bg-white/10 text-white hover:bg-white/20'
+              }`}
+            >
+              {lobbyLocked ? '🔒 Lobby locked' : 'Lock lobby'}
+            </button>
+          )}
           {gamePhase === 'lobby' && (
             <button
               onClick={sendStartGameSignal}
@@ -163,8 +502,48 @@ export function HostScreen() {
         </div>
       </div>
 
+      {/* Session Progress */}
+      {gamePhase !== 'lobby' && (
+        <SessionTimeline
+          gameSequence={session.game_sequence}
+          rounds={session.rounds}
+          currentRound={roundInfo.roundNumber}
+          roundWinners={roundWinners}
+          questionsPerRound={roundInfo.questionsPerRound}
+          questionIndex={gamePhase === 'playing' ? hostQuestion?.question_index ?? null : null}
+          secondsPerQuestion={secondsPerQuestion}
+          ended={gamePhase === 'ended'}
+        />
+      )}
+
+      {/* Between-Rounds Results */}
+      {roundResults && gamePhase === 'round_results' && (
+        <RoundResultsScreen
+          roundNumber={roundResults.round_number}
+          teams={roundResults.teams}
+          rankChanges={rankChanges}
+          topPlayers={roundResults.individual_top5}
+          toughestQuestion={toughestQuestion}
+        />
+      )}
+
+      {/* Review of Missed Questions */}
+      {review && gamePhase === 'review' && (
+        <ReviewPanel
+          review={review}
+          distribution={distributions.find((d) => d.question_id === review.question.id)}
+          onStep={sendReviewStep}
+          onEnd={() => send({ type: 'end_review' })}
+        />
+      )}
+
+      {/* Awards Ceremony */}
+      {awards && gamePhase === 'awards' && (
+        <AwardsCeremony awards={awards} revealed={awardsRevealed} onReveal={setAwardsRevealed} />
+      )}
+
       {/* Current Game Info */}
-      {currentGameInfo && (
+      {currentGameInfo && gamePhase !== 'awards' && gamePhase !== 'review' && (
         <div className="glass rounded-xl p-6 text-center">
           <p className="text-4xl mb-2">{currentGameInfo.emoji}</p>
           <h2 className="text-2xl font-bold text-white">{currentGameInfo.name}</h2>
@@ -172,6 +551,99 @@ export function HostScreen() {
         </div>
       )}
 
+      {/* Game Flow Controls */}
+      {IN_GAME_PHASES.includes(gamePhase) && (
+        <HostControls
+          paused={paused}
+          questionActive={!!hostQuestion && gamePhase === 'playing'}
+          onPauseToggle={handlePauseToggle}
+          onNext={handleNext}
+          onSkip={handleSkipQuestion}
+          onAddTime={handleAddTime}
+        />
+      )}
+
+      {/* Live Question */}
+      {hostQuestion && gamePhase === 'playing' && (
+        <HostQuestionPanel
+          key={hostQuestion.question_id}
+          question={hostQuestion}
+          endsAt={questionEndsAt}
+          answersReceived={answerProgress.received}
+          totalPlayers={answerProgress.total}
+          paused={paused}
+        />
+      )}
+
+      {/* Answer Distribution */}
+      {currentDistribution && gamePhase === 'playing' && (
+        <div className="glass rounded-xl p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-white">How the class answered</h3>
+            <button
+              onClick={() => setShowDistribution((v) => !v)}
+              className="px-3 py-1.5 bg-white/10 text-white/70 text-sm rounded-lg hover:bg-white/20 transition-colors"
+            >
+              {showDistribution ? 'Hide chart' : 'Show chart'}
+            </button>
+          </div>
+          {showDistribution && (
+            <AnswerDistributionChart
+              counts={currentDistribution.counts}
+              correctIndex={currentDistribution.correct_index}
+              totalAnswers={currentDistribution.total_answers}
+              options={hostQuestion?.options}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Steal Announcement */}
+      {stealEvent && (
+        <StealBanner
+          key={stealEvent.steal_id}
+          thiefName={stealEvent.thief_name}
+          thiefTeamName={stealEvent.thief_team_name}
+          victimTeamName={stealEvent.victim_team_name}
+          points={stealEvent.points}
+        />
+      )}
+
+      {/* High Stakes Wagers */}
+      {wagers && currentGame === 'high_stakes' && (
+        <WagerBoard category={wagers.category} teams={wagers.teams} />
+      )}
+
+      {/* Knockout Survivors */}
+      {knockout && currentGame === 'knockout' && (
+        <KnockoutBoard
+          players={players}
+          survivorIds={knockout.survivor_ids}
+          eliminatedIds={knockout.eliminated_ids}
+        />
+      )}
+
+      {/* Team Up Pairs */}
+      {pairs.length > 0 && currentGame === 'team_up' && (
+        <PairGrid pairs={pairs} />
+      )}
+
+      {/* Marathon Race */}
+      {marathon && currentGame === 'marathon' && (
+        <MarathonRace secondsRemaining={marathon.seconds_remaining} teams={marathon.teams} />
+      )}
+
+      {/* Lobby Team Assignment */}
+      {gamePhase === 'lobby' && (
+        <LobbyTeamBoard
+          players={players}
+          teamNames={teamNames}
+          onMove={handleMovePlayer}
+          onAutoBalance={() => send({ type: 'balance_teams' })}
+          onShuffle={() => send({ type: 'shuffle_teams' })}
+        />
+      )}
+
       {/* Players / Teams */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Players */}
@@ -181,15 +653,17 @@ export function HostScreen() {
           </h3>
           <div className="grid grid-cols-2 gap-2 max-h-80 overflow-y-auto">
             {players.map((p) => (
-              <div
+              <PlayerCard
                 key={p.player_id}
-                className={`p-3 rounded-lg ${
-                  p.connected ? 'bg-[#0F2A3D]' : 'bg-[#0F2A3D] opacity-50'
-                }`}
-              >
-                <p className="font-medium text-white truncate">{p.display_name}</p>
-                <p className="text-sm text-white/50">{p.score} pts</p>
-              </div>
+                player={p.player_id in accommodationOverrides
+                  ? { ...p, accommodations: accommodationOverrides[p.player_id] }
+                  : p}
+                teamNames={teamNames}
+                onRename={handleRenamePlayer}
+                onMove={handleMovePlayer}
+                onKick={handleKickPlayer}
+                onSetAccommodations={handleSetAccommodations}
+              />
             ))}
             {players.length === 0 && (
               <p className="col-span-2 text-center text-white/40 py-8">
@@ -0,0 +1,228 @@
+/**
+ * Present Page
+ *
+ * Fullscreen audience view for the projector. Renders only what students
+ * should see, mirrored from the host control tab, so the teacher's controls
+ * can stay on the laptop.
+ */
+
+import { useState, useEffect, useMemo } from 'react'
+import { useParams } from 'react-router-dom'
+import { GAME_INFO } from '@quiz-party/shared'
+import {
+  QRCodeDisplay,
+  WagerBoard,
+  KnockoutBoard,
+  PairGrid,
+  MarathonRace,
+  StealBanner,
+  RandomEventCard,
+  AwardsCeremony,
+  ReviewPanel,
+  HostQuestionPanel,
+  RoundResultsScreen,
+  AnswerDistributionChart,
+} from '../components'
+import { usePresenterSnapshot } from '../hooks/usePresenterChannel'
+
+export function Present() {
+  const { code } = useParams<{ code: string }>()
+  const snapshot = usePresenterSnapshot(code)
+  const [isFullscreen, setIsFullscreen] = useState(() => !!document.fullscreenElement)
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!document.fullscreenElement)
+    document.addEventListener('fullscreenchange', handleChange)
+    return () => document.removeEventListener('fullscreenchange', handleChange)
+  }, [])
+
+  const sortedTeams = useMemo(
+    () => snapshot ? [...snapshot.teams].sort((a, b) => a.rank - b.rank) : [],
+    [snapshot]
+  )
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {})
+    } else {
+      document.documentElement.requestFullscreen().catch(() => {})
+    }
+  }
+
+  if (!code) return null
+
+  if (!snapshot) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-8 text-center">
+        <p className="text-white/60 text-xl" role="status" aria-live="polite">
+          Waiting for the host screen...
+        </p>
+        <p className="text-white/40 max-w-md">
+          Keep the host controls for session <span className="font-mono text-ice">{code}</span> open
+          in another tab of this browser.
+        </p>
+      </div>
+    )
+  }
+
+  const {
+    gamePhase,
+    currentGame,
+    players,
+    hostQuestion,
+    questionEndsAt,
+    answerProgress,
+    paused,
+    distribution,
+    roundResults,
+    rankChanges,
+    toughestQuestion,
+    awards,
+    awardsRevealed,
+    review,
+    randomEvent,
+    stealEvent,
+    wagers,
+    knockout,
+    pairs,
+    marathon,
+  } = snapshot
+  const gameInfo = currentGame ? GAME_INFO[currentGame as keyof typeof GAME_INFO] : null
+  const showLeaderboard = sortedTeams.length > 0 && ['game_intro', 'playing', 'intermission', 'ended'].includes(gamePhase)
+
+  return (
+    <div className="min-h-screen p-8 space-y-6">
+      {randomEvent && <RandomEventCard event={randomEvent} onDismiss={() => {}} />}
+
+      {/* Join strip */}
+      <div className="flex items-center justify-between">
+        <p className="text-white/60 text-xl">
+          Join at <span className="text-ice font-mono">quizparty.rcnr.net</span> with code{' '}
+          <span className="text-ice font-mono font-bold text-3xl tracking-wider">{code}</span>
+        </p>
+        {!isFullscreen && (
+          <button
+            onClick={toggleFullscreen}
+            className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors"
+          >
+            Go fullscreen
+          </button>
+        )}
+      </div>
+
+      {/* Lobby: big join instructions */}
+      {gamePhase === 'lobby' && (
+        <div className="glass rounded-2xl p-12 flex flex-col items-center text-center">
+          <p className="text-white/60 text-2xl mb-2">Scan or go to quizparty.rcnr.net</p>
+          <p className="text-8xl font-mono font-bold text-ice tracking-[0.2em] mb-8">{code}</p>
+          <QRCodeDisplay sessionCode={code} size={240} />
+          <p className="text-white/60 text-xl mt-8">
+            {players.length} {players.length === 1 ? 'player' : 'players'} joined
+          </p>
+          <div className="flex flex-wrap justify-center gap-2 mt-4 max-w-4xl">
+            {players.map((p) => (
+              <span key={p.player_id} className="animate-banner-in px-3 py-1 rounded-full bg-[#0F2A3D] text-white">
+                {p.display_name}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Mini-game intro */}
+      {gameInfo && gamePhase === 'game_intro' && (
+        <div className="glass rounded-2xl p-12 text-center">
+          <p className="text-8xl mb-4">{gameInfo.emoji}</p>
+          <h2 className="text-5xl font-bold text-white mb-3" style={{ fontFamily: 'var(--font-display)' }}>
+            {gameInfo.name}
+          </h2>
+          <p className="text-white/60 text-2xl">{gameInfo.description}</p>
+        </div>
+      )}
+
+      {roundResults && gamePhase === 'round_results' && (
+        <RoundResultsScreen
+          roundNumber={roundResults.round_number}
+          teams={roundResults.teams}
+          rankChanges={rankChanges}
+          topPlayers={roundResults.individual_top5}
+          toughestQuestion={toughestQuestion}
+        />
+      )}
+
+      {review && gamePhase === 'review' && <ReviewPanel review={review} />}
+
+      {awards && gamePhase === 'awards' && <AwardsCeremony awards={awards} revealed={awardsRevealed} />}
+
+      {hostQuestion && gamePhase === 'playing' && (
+        <HostQuestionPanel
+          key={hostQuestion.question_id}
+          question={hostQuestion}
+          endsAt={questionEndsAt}
+          answersReceived={answerProgress.received}
+          totalPlayers={answerProgress.total}
+          paused={paused}
+        />
+      )}
+
+      {distribution && gamePhase === 'playing' && (
+        <div className="glass rounded-xl p-6">
+          <AnswerDistributionChart
+            counts={distribution.counts}
+            correctIndex={distribution.correct_index}
+            totalAnswers={distribution.total_answers}
+            options={hostQuestion?.options}
+          />
+        </div>
+      )}
+
+      {stealEvent && (
+        <StealBanner
+          key={stealEvent.steal_id}
+          thiefName={stealEvent.thief_name}
+          thiefTeamName={stealEvent.thief_team_name}
+          victimTeamName={stealEvent.victim_team_name}
+          points={stealEvent.points}
+        />
+      )}
+
+      {wagers && currentGame === 'high_stakes' && (
+        <WagerBoard category={wagers.category} teams={wagers.teams} />
+      )}
+
+      {knockout && currentGame === 'knockout' && (
+        <KnockoutBoard
+          players={players}
+          survivorIds={knockout.survivor_ids}
+          eliminatedIds={knockout.eliminated_ids}
+        />
+      )}
+
+      {pairs.length > 0 && currentGame === 'team_up' && <PairGrid pairs={pairs} />}
+
+      {marathon && currentGame === 'marathon' && (
+        <MarathonRace secondsRemaining={marathon.seconds_remaining} teams={marathon.teams} />
+      )}
+
+      {/* Leaderboard */}
+      {showLeaderboard && (
+        <div className="glass rounded-xl p-6">
+          <h3 className="text-2xl font-bold text-white mb-4">
+            {gamePhase === 'ended' ? 'Final Standings' : 'Leaderboard'}
+          </h3>
+          <div className="space-y-2">
+            {sortedTeams.map((t) => (
+              <div key={t.team_id} className="flex items-center justify-between p-4 rounded-lg bg-[#0F2A3D]">
+                <div className="flex items-center gap-4">
+                  <span className="text-3xl font-bold text-ice">#{t.rank}</span>
+                  <span className="text-white text-xl font-medium">{t.name}</span>
+                </div>
+                <span className="text-white text-xl font-mono">{t.total_score}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
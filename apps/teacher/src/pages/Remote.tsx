@@ -0,0 +1,302 @@
+/**
+ * Remote Page
+ *
+ * Phone-sized host remote so the teacher can run the game while walking the
+ * room. Holds no game state of its own: everything shown comes from the
+ * server, so it can run alongside the HostScreen without the two disagreeing.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { useAuth } from '@clerk/clerk-react'
+import {
+  useWebSocket,
+  sessionAPI,
+  type TeamScore,
+  type HostWSMessage,
+  type WSHostQuestion,
+  type WSReviewQuestion,
+  GAME_INFO,
+  isLobbyUpdate,
+  isPlayerConnected,
+  isPlayerDisconnected,
+  isGameIntro,
+  isHostQuestion,
+  isAnswerUpdate,
+  isTimerUpdate,
+  isQuestionVoided,
+  isRoundResults,
+  isStealEvent,
+  isAwards,
+  isReviewQuestion,
+  isReviewEnded,
+  isRandomEvent,
+  isSessionEnded,
+} from '@quiz-party/shared'
+
+// Teams shown on the compact scoreboard
+const SCOREBOARD_SIZE = 5
+// Same bump as the host screen's +time control
+const ADD_TIME_SECONDS = 10
+// Phases where Next and Pause drive the game; review and awards have their own steps
+const QUESTION_FLOW_PHASES = ['game_intro', 'playing', 'round_results', 'intermission', 'random_event']
+
+const PHASE_LABELS: Record<string, string> = {
+  lobby: 'Lobby',
+  game_intro: 'Game intro',
+  playing: 'Question live',
+  round_results: 'Round results',
+  intermission: 'Intermission',
+  random_event: 'Random event',
+  awards: 'Awards',
+  review: 'Reviewing',
+  ended: 'Ended',
+}
+
+export function Remote() {
+  const { code } = useParams<{ code: string }>()
+  const navigate = useNavigate()
+  const { getToken } = useAuth()
+
+  const [token, setToken] = useState('')
+  const [gamePhase, setGamePhase] = useState('lobby')
+  const [currentGame, setCurrentGame] = useState<string | null>(null)
+  const [playerCount, setPlayerCount] = useState(0)
+  const [question, setQuestion] = useState<WSHostQuestion | null>(null)
+  const [answerProgress, setAnswerProgress] = useState({ received: 0, total: 0 })
+  const [paused, setPaused] = useState(false)
+  const [teams, setTeams] = useState<TeamScore[]>([])
+  const [review, setReview] = useState<WSReviewQuestion | null>(null)
+
+  useEffect(() => {
+    getToken().then((t) => setToken(t || ''))
+  }, [getToken])
+
+  const handleMessage = useCallback((msg: HostWSMessage) => {
+    if (isLobbyUpdate(msg)) {
+      setGamePhase(msg.status)
+      setPlayerCount(msg.player_count)
+    } else if (isPlayerConnected(msg) || isPlayerDisconnected(msg)) {
+      setPlayerCount(msg.player_count)
+    } else if (isGameIntro(msg)) {
+      setGamePhase('game_intro')
+      setCurrentGame(msg.game_type)
+      setQuestion(null)
+    } else if (isHostQuestion(msg)) {
+      setGamePhase('playing')
+      setQuestion(msg)
+      setAnswerProgress({ received: msg.answers_received, total: msg.total_players })
+    } else if (isAnswerUpdate(msg)) {
+      setAnswerProgress({ received: msg.answers_received, total: msg.total_players })
+    } else if (isTimerUpdate(msg)) {
+      setPaused(msg.paused)
+    } else if (isQuestionVoided(msg)) {
+      setQuestion((prev) => (prev?.question_id === msg.question_id ? null : prev))
+    } else if (isRoundResults(msg)) {
+      setGamePhase('round_results')
+      setQuestion(null)
+      if ('teams' in msg) setTeams(msg.teams)
+    } else if (isStealEvent(msg)) {
+      setTeams(msg.teams)
+    } else if (isRandomEvent(msg)) {
+      setGamePhase('random_event')
+    } else if (isAwards(msg)) {
+      setGamePhase('awards')
+    } else if (isReviewQuestion(msg)) {
+      setGamePhase('review')
+      setReview(msg)
+    } else if (isReviewEnded(msg)) {
+      setGamePhase('ended')
+    } else if (isSessionEnded(msg)) {
+      setGamePhase('ended')
+    }
+  }, [])
+
+  const { isConnected, send } = useWebSocket<HostWSMessage>({
+    sessionCode: code || '',
+    role: 'host',
+    token,
+    onMessage: handleMessage,
+    enabled: !!code && !!token,
+  })
+
+  const topTeams = useMemo(
+    () => [...teams].sort((a, b) => a.rank - b.rank).slice(0, SCOREBOARD_SIZE),
+    [teams]
+  )
+
+  const handleEnd = async () => {
+    if (!code || !confirm('End this session for everyone?')) return
+    try {
+      await sessionAPI.end(code)
+      navigate('/')
+    } catch {
+      // Ignore
+    }
+  }
+
+  const gameInfo = currentGame ? GAME_INFO[currentGame as keyof typeof GAME_INFO] : null
+  const inGame = gamePhase !== 'lobby' && gamePhase !== 'ended'
+  const questionLive = gamePhase === 'playing' && question !== null
+  const bigButton = 'w-full py-6 rounded-2xl text-2xl font-bold active:scale-[0.97] transition-transform disabled:opacity-40'
+
+  return (
+    <div className="min-h-screen flex flex-col p-4 gap-4 max-w-md mx-auto">
+      {/* Status */}
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-white/50 text-xs">Session</p>
+          <p className="text-2xl font-mono font-bold text-ice tracking-wider">{code}</p>
+        </div>
+        <div className={`px-3 py-1 rounded-full text-sm ${
+          isConnected ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
+        }`}>
+          {isConnected ? 'Connected' : 'Connecting...'}
+        </div>
+      </div>
+
+      <div className="glass rounded-2xl p-4 text-center">
+        <p className="text-white/60 text-sm">
+          {PHASE_LABELS[gamePhase] ?? gamePhase}
+          {gameInfo && inGame && ` · ${gameInfo.emoji} ${gameInfo.name}`}
+          {paused && <span className="text-amber-300 font-bold"> · Paused</span>}
+        </p>
+        {question && gamePhase === 'playing' ? (
+          <>
+            <p className="text-white/50 text-sm mt-2">
+              Question {question.question_index + 1} of {question.total_questions}
+            </p>
+            <p className="text-6xl font-bold text-white mt-1" aria-live="polite">
+              {answerProgress.received}
+              <span className="text-white/40 text-3xl">/{answerProgress.total}</span>
+            </p>
+            <p className="text-white/50 text-sm">answers in</p>
+          </>
+        ) : review && gamePhase === 'review' ? (
+          <>
+            <p className="text-white/50 text-sm mt-2">
+              Review {review.review_index + 1} of {review.total_reviews}
+            </p>
+            <p className="text-white text-lg font-medium mt-1 line-clamp-3">{review.question.question_text}</p>
+          </>
+        ) : (
+          <p className="text-4xl font-bold text-white mt-2">
+            {playerCount} <span className="text-white/40 text-xl">{playerCount === 1 ? 'player' : 'players'}</span>
+          </p>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="space-y-3">
+        {gamePhase === 'lobby' && (
+          <button
+            onClick={() => send({ type: 'start_game' })}
+            disabled={!isConnected || playerCount < 2}
+            className={`${bigButton} btn-amber`}
+          >
+            Start Game
+          </button>
+        )}
+        {QUESTION_FLOW_PHASES.includes(gamePhase) && (
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => send({ type: paused ? 'resume' : 'pause' })}
+              disabled={!isConnected}
+              className={`${bigButton} ${paused ? 'bg-amber-500/30 text-amber-200' : 'bg-white/10 text-white'}`}
+            >
+              {paused ? 'Resume' : 'Pause'}
+            </button>
+            <button
+              onClick={() => send({ type: 'next_question' })}
+              disabled={!isConnected}
+              className={`${bigButton} btn-amber`}
+            >
+              Next
+            </button>
+            {questionLive && (
+              <>
+                <button
+                  onClick={() => send({ type: 'skip_question' })}
+                  disabled={!isConnected}
+                  className="w-full py-4 rounded-2xl bg-white/10 text-white text-lg font-bold active:scale-[0.97] transition-transform disabled:opacity-40"
+                >
+                  Skip
+                </button>
+                <button
+                  onClick={() => send({ type: 'add_time', seconds: ADD_TIME_SECONDS })}
+                  disabled={!isConnected}
+                  className="w-full py-4 rounded-2xl bg-white/10 text-white text-lg font-bold active:scale-[0.97] transition-transform disabled:opacity-40"
+                >
+                  +{ADD_TIME_SECONDS}s
+                </button>
+              </>
+            )}
+          </div>
+        )}
+        {gamePhase === 'awards' && (
+          <button
+            onClick={() => send({ type: 'start_review' })}
+            disabled={!isConnected}
+            className={`${bigButton} btn-amber`}
+          >
+            Review Missed
+          </button>
+        )}
+        {review && gamePhase === 'review' && (
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => send({ type: 'review_step', review_index: review.review_index - 1 })}
+              disabled={!isConnected || review.review_index === 0}
+              className={`${bigButton} bg-white/10 text-white`}
+            >
+              Previous
+            </button>
+            {review.review_index >= review.total_reviews - 1 ? (
+              <button
+                onClick={() => send({ type: 'end_review' })}
+                disabled={!isConnected}
+                className={`${bigButton} btn-amber`}
+              >
+                Finish
+              </button>
+            ) : (
+              <button
+                onClick={() => send({ type: 'review_step', review_index: review.review_index + 1 })}
+                disabled={!isConnected}
+                className={`${bigButton} btn-amber`}
+              >
+                Next
+              </button>
+            )}
+          </div>
+        )}
+        {gamePhase !== 'ended' && (
+          <button
+            onClick={handleEnd}
+            className="w-full py-4 rounded-2xl bg-red-500/20 text-red-400 text-lg font-bold active:scale-[0.97] transition-transform"
+          >
+            End Session
+          </button>
+        )}
+      </div>
+
+      {/* Compact scoreboard */}
+      {topTeams.length > 0 && (
+        <div className="glass rounded-2xl p-4">
+          <h2 className="text-white font-bold mb-2">Scoreboard</h2>
+          <ol className="space-y-1">
+            {topTeams.map((t) => (
+              <li key={t.team_id} className="flex items-center justify-between py-1">
+                <span className="text-white truncate">
+                  <span className="text-ice font-bold mr-2">#{t.rank}</span>
+                  {t.name}
+                </span>
+                <span className="text-white font-mono">{t.total_score}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+/**
+ * Accommodations Tests
+ *
+ * Tests for the per-player accommodation helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ACCOMMODATIONS,
+  hasAccommodations,
+  normalizeAnswerTime,
+} from '../utils/accommodations';
+
+describe('accommodations', () => {
+  describe('hasAccommodations', () => {
+    it('should be false when none are set', () => {
+      expect(hasAccommodations(undefined)).toBe(false);
+      expect(hasAccommodations(DEFAULT_ACCOMMODATIONS)).toBe(false);
+    });
+
+    it('should be true when any accommodation is on', () => {
+      expect(hasAccommodations({ ...DEFAULT_ACCOMMODATIONS, time_multiplier: 1.5 })).toBe(true);
+      expect(hasAccommodations({ ...DEFAULT_ACCOMMODATIONS, reduced_options: true })).toBe(true);
+      expect(hasAccommodations({ ...DEFAULT_ACCOMMODATIONS, read_aloud: true })).toBe(true);
+    });
+  });
+
+  describe('normalizeAnswerTime', () => {
+    it('should leave standard time unchanged', () => {
+      expect(normalizeAnswerTime(7000)).toBe(7000);
+      expect(normalizeAnswerTime(7000, 1)).toBe(7000);
+    });
+
+    it('should scale extended time back to the standard clock', () => {
+      // Halfway through a 40s extended clock scores like halfway through 20s
+      expect(normalizeAnswerTime(20000, 2)).toBe(10000);
+      expect(normalizeAnswerTime(4500, 1.5)).toBe(3000);
+    });
+
+    it('should ignore multipliers that would shorten time', () => {
+      expect(normalizeAnswerTime(6000, 0.5)).toBe(6000);
+      expect(normalizeAnswerTime(6000, 0)).toBe(6000);
+      expect(normalizeAnswerTime(6000, Number.NaN)).toBe(6000);
+    });
+
+    it('should never report negative time', () => {
+      expect(normalizeAnswerTime(-250, 2)).toBe(0);
+    });
+  });
+});
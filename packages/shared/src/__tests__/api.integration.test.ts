@@ -6,7 +6,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { sessionAPI, questionBankAPI, playerAPI } from '../utils/api';
+import { sessionAPI, templateAPI, assignmentAPI, questionBankAPI, playerAPI } from '../utils/api';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -105,6 +105,54 @@ describe('API Client Integration', () => {
           })
         );
       });
+
+      it('should send an explicit round sequence', async () => {
+        const params = {
+          name: 'Custom Session',
+          question_bank_id: 'bank-1',
+          preset: 'standard',
+          chaos_level: 'chill',
+          team_count: 4,
+          rounds: [
+            { game_type: 'speed_race' as const, question_count: 5, time_limit: 20 },
+            { game_type: 'speed_race' as const, question_count: 3, time_limit: 30 },
+            { game_type: 'marathon' as const, question_count: 10, time_limit: 20 },
+          ],
+        };
+
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ session_code: 'XYZ789' }),
+        });
+
+        await sessionAPI.create(params);
+        const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+        expect(body.rounds).toEqual(params.rounds);
+      });
+
+      it('should send a question bank mix', async () => {
+        const params = {
+          name: 'Cumulative Review',
+          question_bank_id: 'bank-1',
+          question_banks: [
+            { question_bank_id: 'bank-1', weight: 2 },
+            { question_bank_id: 'bank-2', question_count: 5 },
+          ],
+          preset: 'standard',
+          chaos_level: 'chill',
+          team_count: 4,
+        };
+
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ session_code: 'XYZ789' }),
+        });
+
+        await sessionAPI.create(params);
+        const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+        expect(body.question_bank_id).toBe('bank-1');
+        expect(body.question_banks).toEqual(params.question_banks);
+      });
     });
 
     describe('getByCode', () => {
@@ -139,6 +187,182 @@ describe('API Client Integration', () => {
         await expect(sessionAPI.getByCode('INVALID')).rejects.toThrow('Session not found');
       });
     });
+
+    describe('distribution storage', () => {
+      beforeEach(() => {
+        sessionStorage.clear();
+      });
+
+      it('should keep distributions per session code', () => {
+        const distributions = [
+          { type: 'answer_distribution' as const, question_id: 'q1', counts: [3, 1, 0, 2], correct_index: 0, total_answers: 6 },
+        ];
+
+        sessionAPI.storeDistributions('ABC123', distributions);
+
+        expect(sessionAPI.getStoredDistributions('ABC123')).toEqual(distributions);
+        expect(sessionAPI.getStoredDistributions('XYZ789')).toEqual([]);
+      });
+    });
+  });
+
+  describe('templateAPI', () => {
+    describe('list', () => {
+      it('should handle wrapper object response', async () => {
+        const templates = [
+          { id: 't1', name: 'Friday Review', question_bank_id: 'bank-1', preset: 'standard', chaos_level: 'spicy', team_count: 4 },
+        ];
+
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ templates }),
+        });
+
+        const result = await templateAPI.list();
+        expect(result).toEqual(templates);
+      });
+    });
+
+    describe('create', () => {
+      it('should save the session setup', async () => {
+        const params = {
+          name: 'Friday Review',
+          question_bank_id: 'bank-1',
+          preset: 'quick',
+          chaos_level: 'max',
+          team_count: 6,
+        };
+
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ id: 't1', created_at: '2024-01-01', ...params }),
+        });
+
+        const result = await templateAPI.create(params);
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          expect.stringContaining('/api/quizparty/templates'),
+          expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify(params),
+          })
+        );
+        expect(result.id).toBe('t1');
+      });
+    });
+
+    describe('update', () => {
+      it('should replace the setup of the given template', async () => {
+        const params = {
+          name: 'Friday Review',
+          question_bank_id: 'bank-2',
+          preset: 'extended',
+          chaos_level: 'chill',
+          team_count: 3,
+        };
+
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ id: 't1', created_at: '2024-01-01', ...params }),
+        });
+
+        const result = await templateAPI.update('t1', params);
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          expect.stringContaining('/api/quizparty/templates/t1'),
+          expect.objectContaining({
+            method: 'PUT',
+            body: JSON.stringify(params),
+          })
+        );
+        expect(result.question_bank_id).toBe('bank-2');
+      });
+    });
+
+    describe('delete', () => {
+      it('should delete by id', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({}),
+        });
+
+        await templateAPI.delete('t1');
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          expect.stringContaining('/api/quizparty/templates/t1'),
+          expect.objectContaining({ method: 'DELETE' })
+        );
+      });
+    });
+  });
+
+  describe('assignmentAPI', () => {
+    describe('start', () => {
+      it('should explain when the assignment is past due', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: false,
+          status: 410,
+          json: () => Promise.resolve({ detail: 'Gone' }),
+        });
+
+        await expect(assignmentAPI.start('HW1234', 'Player')).rejects.toThrow('past its due date');
+      });
+    });
+
+    describe('answer', () => {
+      it('should send the attempt token with the answer', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({
+            type: 'answer_result',
+            correct: false,
+            correct_index: 2,
+            points_earned: -50,
+            new_total: 150,
+            explanation: null,
+          }),
+        });
+
+        const result = await assignmentAPI.answer('HW1234', 'token-1', {
+          question_id: 'q1',
+          answer_index: 0,
+          time_ms: 4200,
+        });
+
+        const [url, options] = mockFetch.mock.calls[0];
+        expect(url).toContain('/api/quizparty/assignments/HW1234/answer');
+        expect(JSON.parse(options.body)).toEqual({
+          attempt_token: 'token-1',
+          question_id: 'q1',
+          answer_index: 0,
+          time_ms: 4200,
+        });
+        expect(result.points_earned).toBe(-50);
+      });
+    });
+
+    describe('results', () => {
+      it('should handle wrapper object response', async () => {
+        const results = [
+          {
+            display_name: 'Ada',
+            score: 820,
+            questions_answered: 15,
+            questions_correct: 12,
+            round_scores: [300, 520],
+            started_at: '2024-01-01T10:00:00Z',
+            completed_at: '2024-01-01T10:12:00Z',
+          },
+        ];
+
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ results }),
+        });
+
+        expect(await assignmentAPI.results('HW1234')).toEqual(results);
+      });
+    });
   });
 
   describe('questionBankAPI', () => {
@@ -230,6 +454,16 @@ describe('API Client Integration', () => {
 
         await expect(playerAPI.join('ABC123', 'Player')).rejects.toThrow('Session is full');
       });
+
+      it('should explain when the lobby is locked', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: false,
+          status: 423,
+          json: () => Promise.resolve({ detail: 'Locked' }),
+        });
+
+        await expect(playerAPI.join('ABC123', 'Player')).rejects.toThrow('This game is locked');
+      });
     });
 
     describe('session storage', () => {
@@ -0,0 +1,280 @@
+/**
+ * QR Code Encoder Tests
+ *
+ * Round-trips encoder output through an independent decoder written from the
+ * spec tables, so a symbol that decodes here is one a phone can scan.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeQR, type QRErrorCorrectionLevel } from '../utils/qrCode';
+
+// ── Minimal decoder (versions 1-10, byte mode) ──
+
+// [EC codewords per block, [block count, data codewords per block], ...] from ISO/IEC 18004 Table 9
+const BLOCK_TABLE: Record<number, Record<QRErrorCorrectionLevel, [number, ...[number, number][]]>> = {
+  1: { L: [7, [1, 19]], M: [10, [1, 16]], Q: [13, [1, 13]], H: [17, [1, 9]] },
+  2: { L: [10, [1, 34]], M: [16, [1, 28]], Q: [22, [1, 22]], H: [28, [1, 16]] },
+  3: { L: [15, [1, 55]], M: [26, [1, 44]], Q: [18, [2, 17]], H: [22, [2, 13]] },
+  4: { L: [20, [1, 80]], M: [18, [2, 32]], Q: [26, [2, 24]], H: [16, [4, 9]] },
+  5: { L: [26, [1, 108]], M: [24, [2, 43]], Q: [18, [2, 15], [2, 16]], H: [22, [2, 11], [2, 12]] },
+  6: { L: [18, [2, 68]], M: [16, [4, 27]], Q: [24, [4, 19]], H: [28, [4, 15]] },
+  7: { L: [20, [2, 78]], M: [18, [4, 31]], Q: [18, [2, 14], [4, 15]], H: [26, [4, 13], [1, 14]] },
+  8: { L: [24, [2, 97]], M: [22, [2, 38], [2, 39]], Q: [22, [4, 18], [2, 19]], H: [26, [4, 14], [2, 15]] },
+  9: { L: [30, [2, 116]], M: [22, [3, 36], [2, 37]], Q: [20, [4, 16], [4, 17]], H: [24, [4, 12], [4, 13]] },
+  10: { L: [18, [2, 68], [2, 69]], M: [26, [4, 43], [1, 44]], Q: [24, [6, 19], [2, 20]], H: [28, [6, 15], [2, 16]] },
+};
+
+// Alignment pattern centres from ISO/IEC 18004 Annex E
+const ALIGNMENT_TABLE: Record<number, number[]> = {
+  1: [], 2: [6, 18], 3: [6, 22], 4: [6, 26], 5: [6, 30],
+  6: [6, 34], 7: [6, 22, 38], 8: [6, 24, 42], 9: [6, 26, 46], 10: [6, 28, 50],
+};
+
+const LEVEL_FROM_BITS: Record<number, QRErrorCorrectionLevel> = { 1: 'L', 0: 'M', 3: 'Q', 2: 'H' };
+
+const MASK_CONDITIONS: ((row: number, col: number) => boolean)[] = [
+  (i, j) => (i + j) % 2 === 0,
+  (i) => i % 2 === 0,
+  (_i, j) => j % 3 === 0,
+  (i, j) => (i + j) % 3 === 0,
+  (i, j) => (Math.floor(i / 2) + Math.floor(j / 3)) % 2 === 0,
+  (i, j) => ((i * j) % 2) + ((i * j) % 3) === 0,
+  (i, j) => (((i * j) % 2) + ((i * j) % 3)) % 2 === 0,
+  (i, j) => (((i * j) % 3) + ((i + j) % 2)) % 2 === 0,
+];
+
+// GF(256) via log/antilog tables
+const GF_EXP: number[] = [];
+const GF_LOG: number[] = [];
+for (let i = 0, x = 1; i < 255; i++) {
+  GF_EXP[i] = x;
+  GF_LOG[x] = i;
+  x <<= 1;
+  if (x & 0x100) x ^= 0x11d;
+}
+const gfMul = (a: number, b: number) => (a === 0 || b === 0 ? 0 : GF_EXP[(GF_LOG[a] + GF_LOG[b]) % 255]);
+
+function bchFormat(data: number): number {
+  let value = data << 10;
+  for (let bit = 14; bit >= 10; bit--) {
+    if (value & (1 << bit)) value ^= 0x537 << (bit - 10);
+  }
+  return ((data << 10) | value) ^ 0x5412;
+}
+
+function bchVersion(version: number): number {
+  let value = version << 12;
+  for (let bit = 17; bit >= 12; bit--) {
+    if (value & (1 << bit)) value ^= 0x1f25 << (bit - 12);
+  }
+  return (version << 12) | value;
+}
+
+interface Decoded {
+  text: string;
+  version: number;
+  level: QRErrorCorrectionLevel;
+  mask: number;
+}
+
+function decodeQR(modules: boolean[][]): Decoded {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  const dark = (row: number, col: number) => modules[row][col];
+
+  // Finder patterns
+  for (const [r0, c0] of [[0, 0], [0, size - 7], [size - 7, 0]]) {
+    for (let r = 0; r < 7; r++) {
+      for (let c = 0; c < 7; c++) {
+        const ring = Math.max(Math.abs(r - 3), Math.abs(c - 3));
+        if (dark(r0 + r, c0 + c) !== (ring !== 2)) throw new Error('Bad finder pattern');
+      }
+    }
+  }
+
+  // Format information (both copies must agree)
+  const readBits = (coords: [number, number][]) =>
+    coords.reduce((acc, [row, col], i) => acc | ((dark(row, col) ? 1 : 0) << i), 0);
+  const formatA = readBits([
+    [0, 8], [1, 8], [2, 8], [3, 8], [4, 8], [5, 8], [7, 8], [8, 8],
+    [8, 7], [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0],
+  ]);
+  const formatB = readBits([
+    [8, size - 1], [8, size - 2], [8, size - 3], [8, size - 4], [8, size - 5], [8, size - 6], [8, size - 7], [8, size - 8],
+    [size - 7, 8], [size - 6, 8], [size - 5, 8], [size - 4, 8], [size - 3, 8], [size - 2, 8], [size - 1, 8],
+  ]);
+  if (formatA !== formatB) throw new Error('Format copies disagree');
+  const formatData = Array.from({ length: 32 }, (_, d) => d).find((d) => bchFormat(d) === formatA);
+  if (formatData === undefined) throw new Error('Invalid format information');
+  const level = LEVEL_FROM_BITS[formatData >> 3];
+  const mask = formatData & 7;
+
+  // Function module map
+  const reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserve = (r0: number, c0: number, rows: number, cols: number) => {
+    for (let r = r0; r < r0 + rows; r++) for (let c = c0; c < c0 + cols; c++) reserved[r][c] = true;
+  };
+  reserve(0, 0, 9, 9);
+  reserve(0, size - 8, 9, 8);
+  reserve(size - 8, 0, 8, 9);
+  reserve(6, 0, 1, size);
+  reserve(0, 6, size, 1);
+  const centres = ALIGNMENT_TABLE[version];
+  const last = centres[centres.length - 1];
+  for (const r of centres) {
+    for (const c of centres) {
+      // The three corners overlapping finder patterns are left out
+      const overlapsFinder = (r === 6 && c === 6) || (r === 6 && c === last) || (r === last && c === 6);
+      if (!overlapsFinder) reserve(r - 2, c - 2, 5, 5);
+    }
+  }
+  if (version >= 7) {
+    reserve(0, size - 11, 6, 3);
+    reserve(size - 11, 0, 3, 6);
+    const versionBits = readBits(
+      Array.from({ length: 18 }, (_, i) => [Math.floor(i / 3), size - 11 + (i % 3)] as [number, number])
+    );
+    if (versionBits !== bchVersion(version)) throw new Error('Bad version information');
+  }
+  if (!dark(size - 8, 8)) throw new Error('Missing dark module');
+
+  // Read the zigzag, unmasking as we go
+  const bits: number[] = [];
+  let upward = true;
+  for (let col = size - 1; col > 0; col -= 2) {
+    if (col === 6) col--;
+    for (let k = 0; k < size; k++) {
+      const row = upward ? size - 1 - k : k;
+      for (const c of [col, col - 1]) {
+        if (reserved[row][c]) continue;
+        bits.push((dark(row, c) !== MASK_CONDITIONS[mask](row, c)) ? 1 : 0);
+      }
+    }
+    upward = !upward;
+  }
+  const codewords: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, b) => (acc << 1) | b, 0));
+  }
+
+  // De-interleave into blocks
+  const [ecPerBlock, ...groups] = BLOCK_TABLE[version][level];
+  const blockSizes = groups.flatMap(([count, dataLength]) => new Array<number>(count).fill(dataLength));
+  const blocks = blockSizes.map(() => [] as number[]);
+  let pos = 0;
+  for (let i = 0; i < Math.max(...blockSizes); i++) {
+    blockSizes.forEach((length, b) => {
+      if (i < length) blocks[b].push(codewords[pos++]);
+    });
+  }
+  const ecBlocks = blockSizes.map(() => [] as number[]);
+  for (let i = 0; i < ecPerBlock; i++) {
+    ecBlocks.forEach((ec) => ec.push(codewords[pos++]));
+  }
+
+  // Every block must be a valid Reed-Solomon codeword (all syndromes zero)
+  blocks.forEach((data, b) => {
+    const full = data.concat(ecBlocks[b]);
+    for (let i = 0; i < ecPerBlock; i++) {
+      const syndrome = full.reduce((acc, c) => gfMul(acc, GF_EXP[i]) ^ c, 0);
+      if (syndrome !== 0) throw new Error(`Reed-Solomon check failed in block ${b}`);
+    }
+  });
+
+  // Parse the byte-mode segment
+  const dataBits = blocks.flat().flatMap((cw) => Array.from({ length: 8 }, (_, i) => (cw >> (7 - i)) & 1));
+  let bitPos = 0;
+  const take = (n: number) => {
+    let v = 0;
+    for (let i = 0; i < n; i++) v = (v << 1) | dataBits[bitPos++];
+    return v;
+  };
+  if (take(4) !== 0b0100) throw new Error('Expected byte mode');
+  const length = take(version <= 9 ? 8 : 16);
+  const bytes = Uint8Array.from({ length }, () => take(8));
+
+  return { text: new TextDecoder().decode(bytes), version, level, mask };
+}
+
+// ── Tests ──
+
+describe('encodeQR', () => {
+  const joinUrl = 'https://quizparty.rcnr.net/join?code=ABC123';
+
+  it('should round-trip the join URL', () => {
+    const qr = encodeQR(joinUrl);
+    const decoded = decodeQR(qr.modules);
+
+    expect(decoded.text).toBe(joinUrl);
+    expect(decoded.version).toBe(qr.version);
+    expect(decoded.level).toBe(qr.errorCorrectionLevel);
+    expect(decoded.mask).toBe(qr.mask);
+    expect(qr.modules).toHaveLength(qr.version * 4 + 17);
+  });
+
+  it('should use the smallest version that fits', () => {
+    expect(encodeQR('ABC123', { boostErrorCorrection: false }).version).toBe(1);
+    // 43 bytes exceeds version 3-M (42) but fits version 4-M (62)
+    expect(encodeQR(joinUrl, { boostErrorCorrection: false }).version).toBe(4);
+  });
+
+  it.each<QRErrorCorrectionLevel>(['L', 'M', 'Q', 'H'])('should encode at level %s', (level) => {
+    const qr = encodeQR(joinUrl, { errorCorrectionLevel: level, boostErrorCorrection: false });
+    const decoded = decodeQR(qr.modules);
+
+    expect(decoded.level).toBe(level);
+    expect(decoded.text).toBe(joinUrl);
+  });
+
+  it('should boost error correction when it fits in the same version', () => {
+    // 6 bytes fit version 1 even at level H
+    const qr = encodeQR('ABC123', { errorCorrectionLevel: 'L' });
+
+    expect(qr.version).toBe(1);
+    expect(qr.errorCorrectionLevel).toBe('H');
+    expect(decodeQR(qr.modules).text).toBe('ABC123');
+  });
+
+  it('should never use a lower level than requested', () => {
+    const qr = encodeQR(joinUrl, { errorCorrectionLevel: 'H' });
+
+    expect(qr.errorCorrectionLevel).toBe('H');
+    expect(decodeQR(qr.modules).text).toBe(joinUrl);
+  });
+
+  it('should encode multi-block versions with version information', () => {
+    const text = `${joinUrl}&name=${'x'.repeat(110)}`;
+    const qr = encodeQR(text, { boostErrorCorrection: false });
+
+    expect(qr.version).toBeGreaterThanOrEqual(7);
+    expect(decodeQR(qr.modules).text).toBe(text);
+  });
+
+  it.each([0, 1, 2, 3, 4, 5, 6, 7])('should decode with forced mask %i', (mask) => {
+    const qr = encodeQR(joinUrl, { mask });
+
+    expect(qr.mask).toBe(mask);
+    expect(decodeQR(qr.modules)).toMatchObject({ text: joinUrl, mask });
+  });
+
+  it('should encode UTF-8 text', () => {
+    const text = 'Café quiz ☕ ready?';
+    expect(decodeQR(encodeQR(text).modules).text).toBe(text);
+  });
+
+  it('should respect minVersion', () => {
+    const qr = encodeQR('ABC123', { minVersion: 5 });
+
+    expect(qr.version).toBe(5);
+    expect(decodeQR(qr.modules).text).toBe('ABC123');
+  });
+
+  it('should throw when the text is too long', () => {
+    expect(() => encodeQR('x'.repeat(3000))).toThrow(RangeError);
+    expect(() => encodeQR(joinUrl, { maxVersion: 2 })).toThrow('too long');
+  });
+
+  it('should reject an invalid mask', () => {
+    expect(() => encodeQR(joinUrl, { mask: 8 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * RandomEventDetails Component
+ *
+ * Renders the event-specific part of a chaos event (who swaps with whom,
+ * which teams are frozen...). Each event key registers its own renderer;
+ * unknown keys fall back to listing the affected teams.
+ */
+
+import type { ReactNode } from 'react';
+import type { RandomEventKey, RandomEventTeam, WSRandomEvent } from '../types';
+
+type RandomEventRenderer = (event: WSRandomEvent) => ReactNode;
+
+function TeamChips({ teams, prefix = '' }: { teams: RandomEventTeam[]; prefix?: string }) {
+  return (
+    <div className="flex flex-wrap justify-center gap-2">
+      {teams.map((t) => (
+        <span key={t.team_id} className="px-3 py-1 rounded-full bg-white/10 text-white font-medium">
+          {prefix}{t.name}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+const RANDOM_EVENT_RENDERERS: Record<RandomEventKey, RandomEventRenderer> = {
+  double_points: (event) => (
+    <div className="space-y-2">
+      <p className="text-5xl font-bold text-amber-300">2x</p>
+      {event.affected_teams.length > 0 ? (
+        <TeamChips teams={event.affected_teams} />
+      ) : (
+        <p className="text-white/70">All teams</p>
+      )}
+    </div>
+  ),
+  team_swap: (event) => {
+    const [first, second] = event.affected_teams;
+    if (!first || !second) return <TeamChips teams={event.affected_teams} />;
+    return (
+      <div className="flex items-center justify-center gap-3 text-white font-bold">
+        <span className="px-3 py-1 rounded-full bg-white/10">{first.name}</span>
+        <span className="text-2xl" aria-label="swaps with">&#8644;</span>
+        <span className="px-3 py-1 rounded-full bg-white/10">{second.name}</span>
+      </div>
+    );
+  },
+  score_freeze: (event) => <TeamChips teams={event.affected_teams} prefix={'❄️ '} />,
+};
+
+interface RandomEventDetailsProps {
+  event: WSRandomEvent;
+  className?: string;
+}
+
+export function RandomEventDetails({ event, className = '' }: RandomEventDetailsProps) {
+  const renderer = RANDOM_EVENT_RENDERERS[event.event_key as RandomEventKey];
+  const content = renderer
+    ? renderer(event)
+    : event.affected_teams.length > 0 && <TeamChips teams={event.affected_teams} />;
+
+  if (!content) return null;
+  return <div className={className}>{content}</div>;
+}
@@ -1,3 +1,4 @@
 export { Skeleton, SkeletonText, SkeletonCard, SkeletonButton } from './Skeleton';
 export { ErrorAlert } from './ErrorAlert';
 export { Pagination, usePagination } from './Pagination';
+export { RandomEventDetails } from './RandomEventDetails';
@@ -1,5 +1,23 @@
 export { useWebSocket } from './useWebSocket';
-export type { UseWebSocketOptions, UseWebSocketReturn, WebSocketMessageData } from './useWebSocket';
+export type {
+  UseWebSocketOptions,
+  UseWebSocketReturn,
+  WebSocketMessageData,
+  WSOutboundMessage,
+  WSOutboundInit,
+  WSOutboundAnswer,
+  WSOutboundSkip,
+  WSOutboundWager,
+  WSOutboundStealAttempt,
+  WSOutboundHostAction,
+  WSOutboundReviewStep,
+  WSOutboundAddTime,
+  WSOutboundKickPlayer,
+  WSOutboundRenamePlayer,
+  WSOutboundMovePlayer,
+  WSOutboundSetAccommodations,
+  WSOutboundLobbyLock,
+} from './useWebSocket';
 
 export { useFetchData, clearFetchCache, clearCacheKey } from './useFetchData';
 export type { UseFetchDataResult, UseFetchDataOptions } from './useFetchData';
@@ -5,7 +5,7 @@
  */
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import type { HostWSMessage, PlayerWSMessage } from '../types';
+import type { HostWSMessage, PlayerWSMessage, PlayerAccommodations } from '../types';
 
 // WebSocket connection constants
 const INITIAL_RECONNECT_DELAY_MS = 1000;
@@ -30,11 +30,90 @@ export interface WSOutboundAnswer {
   answer_index: number;
 }
 
+export interface WSOutboundSkip {
+  type: 'skip_question';
+  question_id: string;
+}
+
+export interface WSOutboundWager {
+  type: 'submit_wager';
+  question_id: string;
+  amount: number;
+}
+
+export interface WSOutboundStealAttempt {
+  type: 'steal_attempt';
+  steal_id: string;
+  answer_index: number;
+}
+
 export interface WSOutboundHostAction {
-  type: 'start_game' | 'next_question' | 'pause' | 'resume' | 'end_session';
+  type:
+    | 'start_game'
+    | 'next_question'
+    | 'void_question'
+    | 'pause'
+    | 'resume'
+    | 'end_session'
+    | 'start_review'
+    | 'end_review'
+    | 'balance_teams'
+    | 'shuffle_teams';
+}
+
+export interface WSOutboundAddTime {
+  type: 'add_time';
+  seconds: number;
+}
+
+export interface WSOutboundKickPlayer {
+  type: 'kick_player';
+  player_id: string;
+}
+
+export interface WSOutboundRenamePlayer {
+  type: 'rename_player';
+  player_id: string;
+  display_name: string;
+}
+
+export interface WSOutboundMovePlayer {
+  type: 'move_player';
+  player_id: string;
+  team_id: string;
+}
+
+export interface WSOutboundSetAccommodations {
+  type: 'set_accommodations';
+  player_id: string;
+  accommodations: PlayerAccommodations;
+}
+
+export interface WSOutboundLobbyLock {
+  type: 'set_lobby_locked';
+  locked: boolean;
+}
+
+export interface WSOutboundReviewStep {
+  type: 'review_step';
+  review_index: number;
 }
 
-export type WSOutboundMessage = WSOutboundInit | WSOutboundAnswer | WSOutboundHostAction | { type: 'pong' };
+export type WSOutboundMessage =
+  | WSOutboundInit
+  | WSOutboundAnswer
+  | WSOutboundSkip
+  | WSOutboundWager
+  | WSOutboundStealAttempt
+  | WSOutboundHostAction
+  | WSOutboundReviewStep
+  | WSOutboundAddTime
+  | WSOutboundKickPlayer
+  | WSOutboundRenamePlayer
+  | WSOutboundMovePlayer
+  | WSOutboundSetAccommodations
+  | WSOutboundLobbyLock
+  | { type: 'pong' };
 
 export interface UseWebSocketOptions<T extends WebSocketMessageData = WebSocketMessageData> {
   sessionCode: string;
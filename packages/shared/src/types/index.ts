@@ -28,6 +28,15 @@ export interface QuestionBankWithQuestions extends QuestionBank {
   questions: QuestionItem[];
 }
 
+// One bank's share of a mixed question pool. Set either weight or question_count.
+export interface QuestionBankMix {
+  question_bank_id: string;
+  /** Relative share of questions drawn from this bank */
+  weight?: number;
+  /** Exact number of questions drawn from this bank */
+  question_count?: number;
+}
+
 // Session Types
 export interface SessionConfig {
   id: string;
@@ -39,6 +48,42 @@ export interface SessionConfig {
   session_code: string | null;
   status: string;
   player_count: number | null;
+  /** Player cap for the session; the server default applies when absent */
+  max_players?: number | null;
+  /** Whether the host has locked the lobby to new joins */
+  locked?: boolean;
+  /** Setup the session was created with, for "run again" */
+  question_bank_id?: string;
+  question_banks?: QuestionBankMix[];
+  rounds?: RoundConfig[];
+  created_at: string;
+}
+
+// One round of a custom game sequence
+export interface RoundConfig {
+  game_type: MiniGameType;
+  question_count: number;
+  /** Seconds per question; ignored by Marathon, which runs on one clock */
+  time_limit: number;
+}
+
+// Everything needed to create a session apart from its name
+export interface SessionSetup {
+  /** Primary bank; with question_banks this is the first of the mix */
+  question_bank_id: string;
+  /** Several banks mixed into one pool */
+  question_banks?: QuestionBankMix[];
+  preset: string;
+  chaos_level: string;
+  team_count: number;
+  /** Explicit round sequence; overrides the preset's server-chosen sequence */
+  rounds?: RoundConfig[];
+}
+
+// A saved setup teachers can launch again in one click
+export interface SessionTemplate extends SessionSetup {
+  id: string;
+  name: string;
   created_at: string;
 }
 
@@ -52,13 +97,81 @@ export interface SessionCreateResponse {
   chaos_level: string;
 }
 
+// Assignment Types (self-paced play, no host)
+export interface AssignmentConfig {
+  id: string;
+  name: string;
+  assignment_code: string;
+  question_bank_id: string;
+  question_banks?: QuestionBankMix[];
+  rounds: RoundConfig[];
+  /** ISO timestamp; attempts can't be started or continued after it */
+  due_at: string;
+  submission_count: number;
+  created_at: string;
+}
+
+export interface AssignmentAttempt {
+  attempt_token: string;
+  display_name: string;
+  score: number;
+  completed: boolean;
+}
+
+export interface AssignmentComplete {
+  type: 'assignment_complete';
+  score: number;
+  questions_answered: number;
+  questions_correct: number;
+}
+
+// Marathon questions carry the clock so a resumed attempt can pick it back up
+export interface AssignmentQuestion extends WSPlayerQuestion {
+  /** Seconds left on the Marathon clock; only set for Marathon questions */
+  marathon_seconds_remaining?: number;
+}
+
+// Next thing a solo player sees; reuses the live game's message shapes
+export type AssignmentStep =
+  | WSGameIntro
+  | WSWagerPrompt
+  | AssignmentQuestion
+  | WSMarathonStart
+  | WSMarathonSummary
+  | AssignmentComplete;
+
+// One student's row in the teacher's results table
+export interface AssignmentResult {
+  display_name: string;
+  score: number;
+  questions_answered: number;
+  questions_correct: number;
+  /** Points per round, in round order; shorter than the sequence while in progress */
+  round_scores: number[];
+  started_at: string;
+  /** null while the student is still working through it */
+  completed_at: string | null;
+}
+
 // Player Types
+
+// Per-player accommodations the host sets, e.g. for students with IEPs
+export interface PlayerAccommodations {
+  /** Scales this player's question time limits; 1 is standard time */
+  time_multiplier: number;
+  /** Hide one distractor on every question */
+  reduced_options: boolean;
+  /** Read each question and its options aloud on the player's device */
+  read_aloud: boolean;
+}
+
 export interface PlayerInfo {
   player_id: string;
   display_name: string;
   team_id: string | null;
   score: number;
   connected: boolean;
+  accommodations?: PlayerAccommodations;
 }
 
 export interface PlayerSession {
@@ -131,6 +244,19 @@ export const GAME_INFO: Record<MiniGameType, { name: string; emoji: string; desc
   steal: { name: 'Steal', emoji: '\uD83C\uDFF4\u200D\u2620\uFE0F', description: 'Wrong answers open a steal window for others!', color: 'steal-orange' },
 };
 
+export type RandomEventKey = 'double_points' | 'team_swap' | 'score_freeze';
+
+export const RANDOM_EVENT_EMOJI: Record<RandomEventKey, string> = {
+  double_points: '\u2728',
+  team_swap: '\uD83D\uDD00',
+  score_freeze: '\u2744\uFE0F',
+};
+
+// Unknown event keys from a newer server still get a generic card
+export function getRandomEventEmoji(eventKey: string): string {
+  return RANDOM_EVENT_EMOJI[eventKey as RandomEventKey] ?? '\uD83C\uDFB2';
+}
+
 // WebSocket Message Types
 export interface WebSocketMessage {
   type: string;
@@ -143,7 +269,11 @@ export interface WSLobbyUpdate {
   status: SessionStatus;
   players: PlayerInfo[];
   teams: Record<string, string[]>;
+  /** Display name per team_id, for the host's move-to-team picker */
+  team_names?: Record<string, string>;
   player_count: number;
+  /** When true, the server rejects new joins with HTTP 423 */
+  locked?: boolean;
 }
 
 export interface WSPlayerConnected {
@@ -171,6 +301,10 @@ export interface WSGameIntro {
 
 export interface WSHostQuestion {
   type: 'host_question';
+  question_id: string;
+  question_text: string;
+  options: string[];
+  correct_index: number;
   question_index: number;
   total_questions: number;
   time_limit: number;
@@ -185,6 +319,15 @@ export interface WSAnswerUpdate {
   total_players: number;
 }
 
+export interface WSAnswerDistribution {
+  type: 'answer_distribution';
+  question_id: string;
+  /** Number of players who picked each option, indexed like the options */
+  counts: number[];
+  correct_index: number;
+  total_answers: number;
+}
+
 export interface WSRoundResults {
   type: 'round_results';
   round_number: number;
@@ -194,6 +337,118 @@ export interface WSRoundResults {
   most_missed_question_id: string | null;
 }
 
+export interface TeamWager {
+  team_id: string;
+  name: string;
+  total_wagered: number;
+  wagers_received: number;
+  member_count: number;
+}
+
+export interface WSWagerUpdate {
+  type: 'wager_update';
+  question_id: string;
+  category: string | null;
+  teams: TeamWager[];
+}
+
+export interface WSKnockoutUpdate {
+  type: 'knockout_update';
+  survivor_ids: string[];
+  eliminated_ids: string[];
+}
+
+export interface TeamUpPairMember {
+  player_id: string;
+  display_name: string;
+  locked_in: boolean;
+}
+
+export interface TeamUpPair {
+  pair_id: string;
+  team_id: string | null;
+  members: TeamUpPairMember[];
+}
+
+export interface WSPairStatus {
+  type: 'pair_status';
+  pairs: TeamUpPair[];
+}
+
+export interface MarathonTeamProgress {
+  team_id: string;
+  name: string;
+  questions_answered: number;
+  questions_correct: number;
+}
+
+export interface WSMarathonProgress {
+  type: 'marathon_progress';
+  seconds_remaining: number;
+  teams: MarathonTeamProgress[];
+}
+
+export interface WSStealEvent {
+  type: 'steal_event';
+  steal_id: string;
+  thief_team_id: string;
+  thief_team_name: string;
+  victim_team_id: string;
+  victim_team_name: string;
+  thief_name: string;
+  points: number;
+  teams: TeamScore[];
+}
+
+export interface RandomEventTeam {
+  team_id: string;
+  name: string;
+}
+
+// Sent to both host and players
+export interface WSRandomEvent {
+  type: 'random_event';
+  /** One of RandomEventKey; kept open so newer server events still render */
+  event_key: string;
+  title: string;
+  description: string;
+  affected_teams: RandomEventTeam[];
+}
+
+// Sent to both host and players; players pick out their own awards by winner_id
+export interface WSAwards {
+  type: 'awards';
+  awards: Award[];
+}
+
+export interface WSReviewQuestion {
+  type: 'review_question';
+  review_index: number;
+  total_reviews: number;
+  question: QuestionItem;
+  /** How many players answered this question wrong */
+  miss_count: number;
+  total_answers: number;
+}
+
+export interface WSReviewEnded {
+  type: 'review_ended';
+}
+
+// Sent to both host and players whenever the host pauses, resumes or adds time
+export interface WSTimerUpdate {
+  type: 'timer_update';
+  paused: boolean;
+  /** Seconds left on the current question (or Marathon clock) */
+  time_remaining: number;
+}
+
+// Sent to both host and players when the host skips a question; it isn't scored
+export interface WSQuestionVoided {
+  type: 'question_voided';
+  question_id: string;
+}
+
 export interface WSSessionComplete {
   type: 'session_complete';
 }
@@ -209,7 +464,19 @@ export type HostWSMessage =
   | WSGameIntro
   | WSHostQuestion
   | WSAnswerUpdate
+  | WSAnswerDistribution
   | WSRoundResults
+  | WSWagerUpdate
+  | WSKnockoutUpdate
+  | WSPairStatus
+  | WSMarathonProgress
+  | WSStealEvent
+  | WSRandomEvent
+  | WSAwards
+  | WSReviewQuestion
+  | WSReviewEnded
+  | WSTimerUpdate
+  | WSQuestionVoided
   | WSSessionComplete
   | WSSessionEnded;
 
@@ -224,17 +491,61 @@ export interface WSPlayerQuestion {
   round_number: number;
   question_index: number;
   total_questions: number;
+  /** Points lost for a wrong answer (Sharpshooter); skipping costs nothing */
+  wrong_penalty?: number;
+  /** Set for players with extended time; time_limit already includes it */
+  time_multiplier?: number;
+  /** Distractors hidden for this player; answer indexes still refer to the full options list */
+  hidden_option_indexes?: number[];
+  /** Read the question aloud on this player's device */
+  read_aloud?: boolean;
+}
+
+export interface WSWagerPrompt {
+  type: 'wager_prompt';
+  question_id: string;
+  category: string | null;
+  bankroll: number;
+  min_wager: number;
+  round_number: number;
+  question_index: number;
+  total_questions: number;
 }
 
+export type TeamUpOutcome = 'both_correct' | 'you_wrong' | 'partner_wrong';
+
 export interface WSAnswerResult {
   type: 'answer_result';
   correct: boolean;
+  skipped?: boolean;
+  /** Joint result for Team Up pairs */
+  team_up_outcome?: TeamUpOutcome;
+  /** Marathon streak after this answer and the multiplier it earns */
+  streak?: number;
+  multiplier?: number;
   correct_index: number;
   points_earned: number;
   new_total: number;
   explanation: string | null;
 }
 
+// Sent to a player the host removed; the server closes the socket afterwards
+export interface WSKicked {
+  type: 'kicked';
+  reason: string | null;
+}
+
+export interface WSPlayerRenamed {
+  type: 'player_renamed';
+  display_name: string;
+}
+
+export interface WSTeamChanged {
+  type: 'team_changed';
+  team_id: string;
+  team_name: string;
+}
+
 export interface WSPlayerGameIntro {
   type: 'game_intro';
   game_type: MiniGameType;
@@ -249,11 +560,111 @@ export interface WSPlayerRoundResults {
   total_players: number;
 }
 
+export interface WSPartnerPaired {
+  type: 'partner_paired';
+  partner_id: string;
+  partner_name: string;
+}
+
+export interface WSPartnerStatus {
+  type: 'partner_status';
+  question_id: string;
+  locked_in: boolean;
+}
+
+export interface WSMarathonStart {
+  type: 'marathon_start';
+  /** Session-wide clock in seconds shared by every Marathon question */
+  duration: number;
+}
+
+export interface WSMarathonSummary {
+  type: 'marathon_summary';
+  questions_attempted: number;
+  questions_correct: number;
+  best_streak: number;
+  points_earned: number;
+}
+
+export interface WSStealWindow {
+  type: 'steal_window';
+  steal_id: string;
+  question_id: string;
+  question_text: string;
+  options: string[];
+  victim_team_id: string;
+  victim_team_name: string;
+  /** Seconds the window stays open */
+  time_limit: number;
+  /** False for the victim team, who can only watch */
+  eligible: boolean;
+}
+
+export interface WSStealClosed {
+  type: 'steal_closed';
+  steal_id: string;
+  correct_index: number;
+  thief_name: string | null;
+  thief_team_name: string | null;
+  /** Whether this player was the one who stole */
+  you_stole: boolean;
+  points_earned: number;
+  new_total: number;
+}
+
+export interface WSPlayerReviewQuestion {
+  type: 'review_question';
+  review_index: number;
+  total_reviews: number;
+  question_text: string;
+  options: string[];
+  correct_index: number;
+  explanation: string | null;
+  /** What this player picked; null if they didn't answer */
+  your_answer_index: number | null;
+  /** Review indexes of the questions this player got wrong */
+  missed_indexes: number[];
+}
+
+export interface WSEliminated {
+  type: 'eliminated';
+  question_id: string;
+  survivors_remaining: number;
+  total_players: number;
+  /** Estimated seconds until the next mini-game, if known */
+  next_game_in: number | null;
+}
+
+export interface WSSurvivorUpdate {
+  type: 'survivor_update';
+  survivors_remaining: number;
+  total_players: number;
+  next_game_in: number | null;
+}
+
 export type PlayerWSMessage =
   | WSPlayerQuestion
+  | WSWagerPrompt
   | WSAnswerResult
   | WSPlayerGameIntro
   | WSPlayerRoundResults
+  | WSEliminated
+  | WSSurvivorUpdate
+  | WSPartnerPaired
+  | WSPartnerStatus
+  | WSMarathonStart
+  | WSMarathonSummary
+  | WSStealWindow
+  | WSStealClosed
+  | WSRandomEvent
+  | WSAwards
+  | WSPlayerReviewQuestion
+  | WSReviewEnded
+  | WSTimerUpdate
+  | WSQuestionVoided
+  | WSKicked
+  | WSPlayerRenamed
+  | WSTeamChanged
   | WSSessionEnded;
 
 // Type Guards for WebSocket Messages
@@ -267,7 +678,19 @@ export function isHostWSMessage(msg: unknown): msg is HostWSMessage {
     'game_intro',
     'host_question',
     'answer_update',
+    'answer_distribution',
     'round_results',
+    'wager_update',
+    'knockout_update',
+    'pair_status',
+    'marathon_progress',
+    'steal_event',
+    'random_event',
+    'awards',
+    'review_question',
+    'review_ended',
+    'timer_update',
+    'question_voided',
     'session_complete',
     'session_ended',
   ];
@@ -277,7 +700,31 @@ export function isHostWSMessage(msg: unknown): msg is HostWSMessage {
 export function isPlayerWSMessage(msg: unknown): msg is PlayerWSMessage {
   if (!msg || typeof msg !== 'object') return false;
   const m = msg as Record<string, unknown>;
-  const validTypes = ['question', 'answer_result', 'game_intro', 'round_results', 'session_ended'];
+  const validTypes = [
+    'question',
+    'wager_prompt',
+    'answer_result',
+    'game_intro',
+    'round_results',
+    'eliminated',
+    'survivor_update',
+    'partner_paired',
+    'partner_status',
+    'marathon_start',
+    'marathon_summary',
+    'steal_window',
+    'steal_closed',
+    'random_event',
+    'awards',
+    'review_question',
+    'review_ended',
+    'timer_update',
+    'question_voided',
+    'kicked',
+    'player_renamed',
+    'team_changed',
+    'session_ended',
+  ];
   return typeof m.type === 'string' && validTypes.includes(m.type);
 }
 
@@ -308,12 +755,84 @@ export function isAnswerUpdate(msg: unknown): msg is WSAnswerUpdate {
   return isHostWSMessage(msg) && msg.type === 'answer_update';
 }
 
+export function isAnswerDistribution(msg: unknown): msg is WSAnswerDistribution {
+  return isHostWSMessage(msg) && msg.type === 'answer_distribution';
+}
+
 export function isRoundResults(msg: unknown): msg is WSRoundResults | WSPlayerRoundResults {
   if (!msg || typeof msg !== 'object') return false;
   const m = msg as Record<string, unknown>;
   return m.type === 'round_results';
 }
 
+export function isWagerUpdate(msg: unknown): msg is WSWagerUpdate {
+  return isHostWSMessage(msg) && msg.type === 'wager_update';
+}
+
+export function isKnockoutUpdate(msg: unknown): msg is WSKnockoutUpdate {
+  return isHostWSMessage(msg) && msg.type === 'knockout_update';
+}
+
+export function isPairStatus(msg: unknown): msg is WSPairStatus {
+  return isHostWSMessage(msg) && msg.type === 'pair_status';
+}
+
+export function isMarathonProgress(msg: unknown): msg is WSMarathonProgress {
+  return isHostWSMessage(msg) && msg.type === 'marathon_progress';
+}
+
+export function isStealEvent(msg: unknown): msg is WSStealEvent {
+  return isHostWSMessage(msg) && msg.type === 'steal_event';
+}
+
+export function isRandomEvent(msg: unknown): msg is WSRandomEvent {
+  if (!msg || typeof msg !== 'object') return false;
+  const m = msg as Record<string, unknown>;
+  return m.type === 'random_event';
+}
+
+export function isAwards(msg: unknown): msg is WSAwards {
+  if (!msg || typeof msg !== 'object') return false;
+  const m = msg as Record<string, unknown>;
+  return m.type === 'awards' && Array.isArray(m.awards);
+}
+
+export function isReviewQuestion(msg: unknown): msg is WSReviewQuestion | WSPlayerReviewQuestion {
+  if (!msg || typeof msg !== 'object') return false;
+  const m = msg as Record<string, unknown>;
+  return m.type === 'review_question';
+}
+
+export function isReviewEnded(msg: unknown): msg is WSReviewEnded {
+  if (!msg || typeof msg !== 'object') return false;
+  const m = msg as Record<string, unknown>;
+  return m.type === 'review_ended';
+}
+
+export function isTimerUpdate(msg: unknown): msg is WSTimerUpdate {
+  if (!msg || typeof msg !== 'object') return false;
+  const m = msg as Record<string, unknown>;
+  return m.type === 'timer_update';
+}
+
+export function isQuestionVoided(msg: unknown): msg is WSQuestionVoided {
+  if (!msg || typeof msg !== 'object') return false;
+  const m = msg as Record<string, unknown>;
+  return m.type === 'question_voided';
+}
+
+export function isKicked(msg: unknown): msg is WSKicked {
+  return isPlayerWSMessage(msg) && msg.type === 'kicked';
+}
+
+export function isPlayerRenamed(msg: unknown): msg is WSPlayerRenamed {
+  return isPlayerWSMessage(msg) && msg.type === 'player_renamed';
+}
+
+export function isTeamChanged(msg: unknown): msg is WSTeamChanged {
+  return isPlayerWSMessage(msg) && msg.type === 'team_changed';
+}
+
 export function isSessionComplete(msg: unknown): msg is WSSessionComplete {
   return isHostWSMessage(msg) && msg.type === 'session_complete';
 }
@@ -331,3 +850,39 @@ export function isPlayerQuestion(msg: unknown): msg is WSPlayerQuestion {
 export function isAnswerResult(msg: unknown): msg is WSAnswerResult {
   return isPlayerWSMessage(msg) && msg.type === 'answer_result';
 }
+
+export function isWagerPrompt(msg: unknown): msg is WSWagerPrompt {
+  return isPlayerWSMessage(msg) && msg.type === 'wager_prompt';
+}
+
+export function isEliminated(msg: unknown): msg is WSEliminated {
+  return isPlayerWSMessage(msg) && msg.type === 'eliminated';
+}
+
+export function isSurvivorUpdate(msg: unknown): msg is WSSurvivorUpdate {
+  return isPlayerWSMessage(msg) && msg.type === 'survivor_update';
+}
+
+export function isPartnerPaired(msg: unknown): msg is WSPartnerPaired {
+  return isPlayerWSMessage(msg) && msg.type === 'partner_paired';
+}
+
+export function isPartnerStatus(msg: unknown): msg is WSPartnerStatus {
+  return isPlayerWSMessage(msg) && msg.type === 'partner_status';
+}
+
+export function isMarathonStart(msg: unknown): msg is WSMarathonStart {
+  return isPlayerWSMessage(msg) && msg.type === 'marathon_start';
+}
+
+export function isMarathonSummary(msg: unknown): msg is WSMarathonSummary {
+  return isPlayerWSMessage(msg) && msg.type === 'marathon_summary';
+}
+
+export function isStealWindow(msg: unknown): msg is WSStealWindow {
+  return isPlayerWSMessage(msg) && msg.type === 'steal_window';
+}
+
+export function isStealClosed(msg: unknown): msg is WSStealClosed {
+  return isPlayerWSMessage(msg) && msg.type === 'steal_closed';
+}
@@ -0,0 +1,35 @@
+/**
+ * Player Accommodations
+ *
+ * Helpers for per-player accommodations (extended time, reduced options,
+ * read-aloud). The server applies them to each player's question payload;
+ * clients use these to report answer times fairly.
+ */
+
+import type { PlayerAccommodations } from '../types';
+
+// Time multipliers the host can pick from
+export const TIME_MULTIPLIER_OPTIONS = [1, 1.5, 2];
+
+export const DEFAULT_ACCOMMODATIONS: PlayerAccommodations = {
+  time_multiplier: 1,
+  reduced_options: false,
+  read_aloud: false,
+};
+
+// Whether a player has any accommodation switched on
+export function hasAccommodations(accommodations: PlayerAccommodations | null | undefined): boolean {
+  if (!accommodations) return false;
+  return accommodations.time_multiplier > 1 || accommodations.reduced_options || accommodations.read_aloud;
+}
+
+/**
+ * Convert time spent on an extended clock to standard-clock time, so
+ * speed-based scoring treats an extended-time player answering at the same
+ * point of their countdown the same as everyone else.
+ */
+export function normalizeAnswerTime(elapsedMs: number, timeMultiplier = 1): number {
+  // Multipliers below 1 would shorten time, which isn't an accommodation
+  const multiplier = Number.isFinite(timeMultiplier) && timeMultiplier > 1 ? timeMultiplier : 1;
+  return Math.round(Math.max(0, elapsedMs) / multiplier);
+}
@@ -18,6 +18,16 @@ declare global {
 import type {
   SessionConfig,
   SessionCreateResponse,
+  SessionSetup,
+  SessionTemplate,
+  AssignmentConfig,
+  AssignmentAttempt,
+  AssignmentStep,
+  AssignmentResult,
+  QuestionBankMix,
+  RoundConfig,
+  WSAnswerResult,
+  WSAnswerDistribution,
   QuestionBank,
   QuestionBankWithQuestions,
   PlayerSession,
@@ -30,6 +40,23 @@ const getApiUrl = () =>
 // Default request timeout in milliseconds
 const DEFAULT_TIMEOUT_MS = 10000;
 
+// HTTP status the backend uses when the host has locked the lobby
+const LOBBY_LOCKED_STATUS = 423;
+
+// HTTP status the backend uses for assignments past their due date
+const ASSIGNMENT_CLOSED_STATUS = 410;
+
+// Error thrown for non-2xx responses, keeping the HTTP status for callers
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
 // Generic fetch wrapper
 async function apiFetch<T>(
   endpoint: string,
@@ -74,7 +101,7 @@ async function apiFetch<T>(
         const text = await response.text().catch(() => '');
         return { detail: text || `Request failed with HTTP ${response.status}` };
       });
-      throw new Error(error.detail || `HTTP ${response.status}`);
+      throw new ApiError(error.detail || `HTTP ${response.status}`, response.status);
     }
 
     return response.json();
@@ -91,6 +118,8 @@ async function apiFetch<T>(
 // Session API (Teacher)
 // ========================================
 
+const distributionsStorageKey = (code: string) => `quizparty_distributions_${code}`;
+
 export const sessionAPI = {
   // List sessions
   list: async (): Promise<SessionConfig[]> => {
@@ -99,13 +128,7 @@ export const sessionAPI = {
   },
 
   // Create session
-  create: async (params: {
-    name: string;
-    question_bank_id: string;
-    preset: string;
-    chaos_level: string;
-    team_count: number;
-  }): Promise<SessionCreateResponse> => {
+  create: async (params: SessionSetup & { name: string }): Promise<SessionCreateResponse> => {
     return apiFetch('/api/quizparty/sessions', {
       method: 'POST',
       body: JSON.stringify(params),
@@ -126,6 +149,57 @@ export const sessionAPI = {
   end: async (code: string): Promise<void> => {
     await apiFetch(`/api/quizparty/sessions/${code}/end`, { method: 'POST' });
   },
+
+  // Answer distributions the host has seen, in question order; kept in
+  // sessionStorage so a reload or the end-of-session report can read them back
+  getStoredDistributions: (code: string): WSAnswerDistribution[] => {
+    if (typeof sessionStorage === 'undefined') return [];
+    const stored = sessionStorage.getItem(distributionsStorageKey(code));
+    if (!stored) return [];
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return [];
+    }
+  },
+
+  storeDistributions: (code: string, distributions: WSAnswerDistribution[]): void => {
+    if (typeof sessionStorage === 'undefined') return;
+    sessionStorage.setItem(distributionsStorageKey(code), JSON.stringify(distributions));
+  },
+};
+
+// ========================================
+// Session Template API (Teacher)
+// ========================================
+
+export const templateAPI = {
+  // List saved templates
+  list: async (): Promise<SessionTemplate[]> => {
+    const data = await apiFetch<SessionTemplate[] | { templates: SessionTemplate[] }>('/api/quizparty/templates');
+    return Array.isArray(data) ? data : data.templates || [];
+  },
+
+  // Save a session setup as a template
+  create: async (params: SessionSetup & { name: string }): Promise<SessionTemplate> => {
+    return apiFetch('/api/quizparty/templates', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  },
+
+  // Replace a template's saved setup
+  update: async (id: string, params: SessionSetup & { name: string }): Promise<SessionTemplate> => {
+    return apiFetch(`/api/quizparty/templates/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(params),
+    });
+  },
+
+  // Delete template
+  delete: async (id: string): Promise<void> => {
+    await apiFetch(`/api/quizparty/templates/${id}`, { method: 'DELETE' });
+  },
 };
 
 // ========================================
@@ -172,6 +246,116 @@ export const questionBankAPI = {
   },
 };
 
+// ========================================
+// Assignment API (Teacher + Student)
+// ========================================
+
+const assignmentStorageKey = (code: string) => `quizparty_assignment_${code}`;
+
+// Solo calls past the due date get a friendlier message than the server's
+async function withClosedMessage<T>(request: Promise<T>): Promise<T> {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === ASSIGNMENT_CLOSED_STATUS) {
+      throw new ApiError('This assignment is past its due date.', error.status);
+    }
+    throw error;
+  }
+}
+
+export const assignmentAPI = {
+  // List assignments (teacher)
+  list: async (): Promise<AssignmentConfig[]> => {
+    const data = await apiFetch<{ assignments?: AssignmentConfig[] } | AssignmentConfig[]>('/api/quizparty/assignments');
+    return Array.isArray(data) ? data : data.assignments || [];
+  },
+
+  // Create assignment (teacher)
+  create: async (params: {
+    name: string;
+    question_bank_id: string;
+    question_banks?: QuestionBankMix[];
+    rounds: RoundConfig[];
+    due_at: string;
+  }): Promise<AssignmentConfig> => {
+    return apiFetch('/api/quizparty/assignments', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  },
+
+  // Get assignment by code
+  getByCode: async (code: string): Promise<AssignmentConfig> => {
+    return apiFetch(`/api/quizparty/assignments/${code}`);
+  },
+
+  // Results table (teacher)
+  results: async (code: string): Promise<AssignmentResult[]> => {
+    const data = await apiFetch<{ results?: AssignmentResult[] } | AssignmentResult[]>(`/api/quizparty/assignments/${code}/results`);
+    return Array.isArray(data) ? data : data.results || [];
+  },
+
+  // Start a solo attempt (student)
+  start: async (code: string, displayName: string): Promise<AssignmentAttempt> => {
+    return withClosedMessage(apiFetch(`/api/quizparty/assignments/${code}/attempts`, {
+      method: 'POST',
+      body: JSON.stringify({ display_name: displayName }),
+    }));
+  },
+
+  // Fetch the next step of an attempt; repeats the current step if it hasn't been answered
+  next: async (code: string, attemptToken: string): Promise<AssignmentStep> => {
+    return withClosedMessage(apiFetch(`/api/quizparty/assignments/${code}/next`, {
+      method: 'POST',
+      body: JSON.stringify({ attempt_token: attemptToken }),
+    }));
+  },
+
+  // Answer the current question; answer_index null means skipped or timed out
+  answer: async (code: string, attemptToken: string, answer: {
+    question_id: string;
+    answer_index: number | null;
+    skipped?: boolean;
+    time_ms: number;
+  }): Promise<WSAnswerResult> => {
+    return withClosedMessage(apiFetch(`/api/quizparty/assignments/${code}/answer`, {
+      method: 'POST',
+      body: JSON.stringify({ attempt_token: attemptToken, ...answer }),
+    }));
+  },
+
+  // Place a High Stakes wager
+  wager: async (code: string, attemptToken: string, questionId: string, amount: number): Promise<void> => {
+    await withClosedMessage(apiFetch(`/api/quizparty/assignments/${code}/wager`, {
+      method: 'POST',
+      body: JSON.stringify({ attempt_token: attemptToken, question_id: questionId, amount }),
+    }));
+  },
+
+  // Attempts live in localStorage so homework can be finished later
+  getStoredAttempt: (code: string): AssignmentAttempt | null => {
+    if (typeof localStorage === 'undefined') return null;
+    const stored = localStorage.getItem(assignmentStorageKey(code));
+    if (!stored) return null;
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return null;
+    }
+  },
+
+  storeAttempt: (code: string, attempt: AssignmentAttempt): void => {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(assignmentStorageKey(code), JSON.stringify(attempt));
+  },
+
+  clearAttempt: (code: string): void => {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.removeItem(assignmentStorageKey(code));
+  },
+};
+
 // ========================================
 // Player API (Student)
 // ========================================
@@ -187,10 +371,17 @@ export const playerAPI = {
     team_name: string | null;
     status: string;
   }> => {
-    return apiFetch(`/api/quizparty/sessions/${code}/join`, {
-      method: 'POST',
-      body: JSON.stringify({ display_name: displayName }),
-    });
+    try {
+      return await apiFetch(`/api/quizparty/sessions/${code}/join`, {
+        method: 'POST',
+        body: JSON.stringify({ display_name: displayName }),
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === LOBBY_LOCKED_STATUS) {
+        throw new ApiError('This game is locked. Ask your teacher to let you in.', error.status);
+      }
+      throw error;
+    }
   },
 
   // Reconnect to session
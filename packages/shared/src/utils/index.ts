@@ -1,4 +1,4 @@
-export { sessionAPI, questionBankAPI, playerAPI } from './api';
+export { sessionAPI, templateAPI, assignmentAPI, questionBankAPI, playerAPI, ApiError } from './api';
 export { createMessageDispatcher, isMessageType, getMessageProperty } from './messageHandlers';
 export {
   storeSecureSession,
@@ -9,3 +9,11 @@ export {
   clearSecureSession,
   refreshSessionExpiry,
 } from './secureSession';
+export {
+  TIME_MULTIPLIER_OPTIONS,
+  DEFAULT_ACCOMMODATIONS,
+  hasAccommodations,
+  normalizeAnswerTime,
+} from './accommodations';
+export { encodeQR } from './qrCode';
+export type { QRCode, QRErrorCorrectionLevel, QREncodeOptions } from './qrCode';
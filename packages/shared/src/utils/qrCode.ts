@@ -0,0 +1,467 @@
+/**
+ * QR Code Encoder
+ *
+ * Zero-dependency QR Code Model 2 encoder (ISO/IEC 18004): byte mode,
+ * versions 1-40, all four error correction levels and automatic mask
+ * selection by penalty score.
+ */
+
+export type QRErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QRCode {
+  version: number;
+  errorCorrectionLevel: QRErrorCorrectionLevel;
+  mask: number;
+  /** Square module grid, true = dark; modules[y][x] */
+  modules: boolean[][];
+}
+
+export interface QREncodeOptions {
+  /** Minimum error correction level (default 'M') */
+  errorCorrectionLevel?: QRErrorCorrectionLevel;
+  /** Raise the level as far as possible without growing the symbol (default true) */
+  boostErrorCorrection?: boolean;
+  /** Force a mask pattern 0-7; chosen by lowest penalty when omitted */
+  mask?: number;
+  minVersion?: number;
+  maxVersion?: number;
+}
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+const EC_LEVELS: QRErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+
+// Two-bit level indicator stored in the format information
+const EC_FORMAT_BITS: Record<QRErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Error correction codewords per block, indexed by version (index 0 unused)
+const EC_CODEWORDS_PER_BLOCK: Record<QRErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+// Number of error correction blocks, indexed by version (index 0 unused)
+const EC_BLOCK_COUNT: Record<QRErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+// Byte-mode indicator and pad codewords
+const MODE_BYTE = 0b0100;
+const PAD_BYTES = [0xec, 0x11];
+
+// Penalty weights for mask selection
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+// 1:1:3:1:1 finder-like run with four light modules on one side
+const FINDER_LIKE = [true, false, true, true, true, false, true, false, false, false, false];
+const FINDER_LIKE_REVERSED = [...FINDER_LIKE].reverse();
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function symbolSize(version: number): number {
+  return version * 4 + 17;
+}
+
+/** Modules available for data and EC codewords once function patterns are drawn */
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number, level: QRErrorCorrectionLevel): number {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    EC_CODEWORDS_PER_BLOCK[level][version] * EC_BLOCK_COUNT[level][version]
+  );
+}
+
+function charCountBits(version: number): number {
+  return version <= 9 ? 8 : 16;
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = symbolSize(version) - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+// ── Reed-Solomon over GF(2^8) with polynomial 0x11D ──
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result: number[] = new Array(degree - 1).fill(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result: number[] = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+}
+
+// ── Codeword construction ──
+
+function encodeDataCodewords(bytes: Uint8Array, version: number, level: QRErrorCorrectionLevel): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(MODE_BYTE, 4);
+  append(bytes.length, charCountBits(version));
+  bytes.forEach((b) => append(b, 8));
+
+  const capacityBits = dataCodewords(version, level) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  for (let i = 0; codewords.length < capacityBits / 8; i++) {
+    codewords.push(PAD_BYTES[i % 2]);
+  }
+  return codewords;
+}
+
+/** Split into blocks, append EC codewords to each, and interleave */
+function addErrorCorrection(data: number[], version: number, level: QRErrorCorrectionLevel): number[] {
+  const numBlocks = EC_BLOCK_COUNT[level][version];
+  const blockEcLength = EC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEcLength);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dataLength = shortBlockLength - blockEcLength + (i < numShortBlocks ? 0 : 1);
+    const block = data.slice(k, k + dataLength);
+    k += dataLength;
+    const ec = reedSolomonRemainder(block, divisor);
+    // Placeholder so short and long blocks line up when interleaving
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(ec));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEcLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+// ── Module placement ──
+
+class QRMatrix {
+  readonly version: number;
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(version: number) {
+    this.version = version;
+    this.size = symbolSize(version);
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns(): void {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(size - 4, 3);
+    this.drawFinder(3, size - 4);
+
+    const positions = alignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // Skip the three that would overlap finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        this.drawAlignment(x, y);
+      });
+    });
+
+    // Reserve format areas now; real bits are drawn once the mask is known
+    this.drawFormatBits(0);
+    this.drawVersionBits();
+  }
+
+  private drawFinder(cx: number, cy: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= this.size || y < 0 || y >= this.size) continue;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        this.setFunction(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+
+  private drawAlignment(cx: number, cy: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormatBits(format: number): void {
+    let rem = format;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((format << 10) | rem) ^ 0x5412;
+    const { size } = this;
+
+    // Copy around the top-left finder
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    // Copy split between the other two finders
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, getBit(bits, i));
+    this.setFunction(8, size - 8, true);
+  }
+
+  private drawVersionBits(): void {
+    if (this.version < 7) return;
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  /** Place codewords in the two-column zigzag, skipping function modules */
+  drawCodewords(codewords: number[]): void {
+    const { size } = this;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      // The vertical timing pattern shifts the column pairs left by one
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vert = 0; vert < size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const y = upward ? size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /** XOR a mask over the data modules; applying it twice undoes it */
+  applyMask(mask: number): void {
+    const fn = MASKS[mask];
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && fn(x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  penaltyScore(): number {
+    const { size, modules } = this;
+    let score = 0;
+
+    const lines: boolean[][] = [];
+    for (let i = 0; i < size; i++) {
+      lines.push(modules[i]);
+      lines.push(modules.map((row) => row[i]));
+    }
+
+    for (const line of lines) {
+      // Runs of five or more same-coloured modules
+      let runLength = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          runLength++;
+        } else {
+          if (runLength >= 5) score += PENALTY_N1 + (runLength - 5);
+          runLength = 1;
+        }
+      }
+
+      // Finder-like patterns
+      for (let i = 0; i + FINDER_LIKE.length <= size; i++) {
+        const matches = (pattern: boolean[]) => pattern.every((dark, k) => line[i + k] === dark);
+        if (matches(FINDER_LIKE)) score += PENALTY_N3;
+        if (matches(FINDER_LIKE_REVERSED)) score += PENALTY_N3;
+      }
+    }
+
+    // 2x2 blocks of one colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const c = modules[y][x];
+        if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) {
+          score += PENALTY_N2;
+        }
+      }
+    }
+
+    // Dark/light balance, penalised per 5% away from 50%
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    score += Math.max(0, k) * PENALTY_N4;
+
+    return score;
+  }
+}
+
+/**
+ * Encode text as a QR code in byte mode (UTF-8), using the smallest version
+ * that fits at the requested error correction level.
+ *
+ * @example
+ * const qr = encodeQR('https://quizparty.rcnr.net/join?code=ABC123');
+ * qr.modules[y][x]; // true = dark
+ */
+export function encodeQR(text: string, options: QREncodeOptions = {}): QRCode {
+  const {
+    errorCorrectionLevel = 'M',
+    boostErrorCorrection = true,
+    mask: forcedMask,
+    minVersion = MIN_VERSION,
+    maxVersion = MAX_VERSION,
+  } = options;
+
+  if (minVersion < MIN_VERSION || maxVersion > MAX_VERSION || minVersion > maxVersion) {
+    throw new RangeError(`Invalid QR version range ${minVersion}-${maxVersion}`);
+  }
+  if (forcedMask !== undefined && (forcedMask < 0 || forcedMask >= MASKS.length)) {
+    throw new RangeError(`Invalid QR mask ${forcedMask}`);
+  }
+
+  const bytes = new TextEncoder().encode(text);
+  const bitsNeeded = (version: number) => 4 + charCountBits(version) + bytes.length * 8;
+
+  let version = minVersion;
+  let level = errorCorrectionLevel;
+  while (bitsNeeded(version) > dataCodewords(version, level) * 8) {
+    if (version >= maxVersion) {
+      throw new RangeError(`Text is too long for a QR code (${bytes.length} bytes)`);
+    }
+    version++;
+  }
+
+  if (boostErrorCorrection) {
+    for (const candidate of EC_LEVELS.slice(EC_LEVELS.indexOf(level) + 1)) {
+      if (bitsNeeded(version) <= dataCodewords(version, candidate) * 8) level = candidate;
+    }
+  }
+
+  const codewords = addErrorCorrection(encodeDataCodewords(bytes, version, level), version, level);
+  const matrix = new QRMatrix(version);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(codewords);
+
+  let mask = forcedMask;
+  if (mask === undefined) {
+    let bestScore = Infinity;
+    for (let candidate = 0; candidate < MASKS.length; candidate++) {
+      matrix.applyMask(candidate);
+      matrix.drawFormatBits((EC_FORMAT_BITS[level] << 3) | candidate);
+      const score = matrix.penaltyScore();
+      if (score < bestScore) {
+        bestScore = score;
+        mask = candidate;
+      }
+      matrix.applyMask(candidate);
+    }
+  }
+
+  const chosenMask = mask as number;
+  matrix.applyMask(chosenMask);
+  matrix.drawFormatBits((EC_FORMAT_BITS[level] << 3) | chosenMask);
+
+  return {
+    version,
+    errorCorrectionLevel: level,
+    mask: chosenMask,
+    modules: matrix.modules,
+  };
+}